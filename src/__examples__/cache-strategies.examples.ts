@@ -1,4 +1,4 @@
-import Result, { type AnyResult } from '../result';
+import Result, { CircuitOpenError, LruStore, Option, type AnyOption, type AnyResult } from '../result';
 
 interface CachedData<T> {
   data: T;
@@ -29,14 +29,14 @@ class CacheService<T> {
   // Get data with cache-first strategy
   async get(key: string): Promise<AnyResult<T, CacheError>> {
     // Try to get from cache first
-    const cachedResult = this.getFromCache(key);
+    const cached = this.getFromCache(key);
     
-    if (Result.isOk(cachedResult)) {
-      return cachedResult;
+    if (Option.isSome(cached)) {
+      return Result.ok(cached.value);
     }
     
-    // Cache miss or expired, get from source
-    return await this.getFromSource(key);
+    // Cache miss or expired, get from source (concurrent misses share one call)
+    return await this.getFromSourceOnce(key);
   }
   
   // Get with stale-while-revalidate strategy
@@ -66,80 +66,50 @@ class CacheService<T> {
     return this.getFromSource(key);
   }
   
-  // Circuit breaker pattern for unstable sources
-  private failureCount: Map<string, number> = new Map();
-  private breakerOpenUntil: Map<string, number> = new Map();
+  // Circuit breaker pattern for unstable sources (one circuit per key)
+  private guardedSource = Result.circuitBreaker((key: string) => this.getFromSource(key), {
+    failureThreshold: 3,
+    resetTimeout: 30000, // Open for 30 seconds
+    key: key => key,
+    onStateChange: ({ key, to }) => console.log(`Circuit breaker for ${key} is now ${to}`),
+  });
   
   async getWithCircuitBreaker(key: string): Promise<AnyResult<T, CacheError>> {
-    // Check if circuit breaker is open
-    const breakerOpenUntilTimestamp = this.breakerOpenUntil.get(key) || 0;
-    if (Date.now() < breakerOpenUntilTimestamp) {
-      // Circuit is open, try to get from cache regardless of freshness
-      const cachedData = this.cache.get(key);
-      if (cachedData) {
-        return Result.ok(cachedData.data);
-      }
-      
-      return Result.not({
-        reason: 'Circuit breaker open and no cached data available',
-        source: 'cache',
-        retriable: false
-      });
-    }
-    
-    // Try to get fresh data 
-    const result = await this.getFromSource(key);
+    const result = await this.guardedSource(key);
     
-    if (Result.notOk(result)) {
-      // Increment failure count
-      const failures = (this.failureCount.get(key) || 0) + 1;
-      this.failureCount.set(key, failures);
-      
-      // If threshold reached, open circuit breaker
-      if (failures >= 3) {
-        const openUntil = Date.now() + 30000; // Open for 30 seconds
-        this.breakerOpenUntil.set(key, openUntil);
-        console.log(`Circuit breaker opened for ${key} until ${new Date(openUntil).toISOString()}`);
-        
-        // Try to return stale data as fallback
-        const cachedData = this.cache.get(key);
-        if (cachedData) {
-          return Result.ok(cachedData.data);
-        }
-      }
-      
-      return result;
-    } else {
-      // Success, reset failure count
-      this.failureCount.delete(key);
-      return result;
+    if (Result.isOk(result)) {
+      return Result.ok(result.data);
     }
-  }
-  
-  // Helper to get from cache
-  private getFromCache(key: string): AnyResult<T, CacheError> {
-    const cachedData = this.cache.get(key);
     
-    if (!cachedData) {
-      return Result.not({
-        reason: 'Cache miss',
-        source: 'cache',
-        retriable: true
-      });
+    // While the circuit is open, try to get from cache regardless of freshness
+    const cachedData = this.cache.get(key);
+    if (this.guardedSource.state(key) === 'open' && cachedData) {
+      return Result.ok(cachedData.data);
     }
     
-    // Check if expired
-    if (Date.now() > cachedData.expiresAt) {
+    if (CircuitOpenError.is(result.error)) {
       return Result.not({
-        reason: 'Cache expired',
+        reason: 'Circuit breaker open and no cached data available',
         source: 'cache',
-        retriable: true
+        retriable: false
       });
     }
     
-    return Result.ok(cachedData.data);
+    return Result.not(result.error);
   }
   
+  // Helper to get from cache (a miss is not a failure, so it is an empty option)
+  private getFromCache(key: string): AnyOption<T> {
+    return Option.fromNullable(this.cache.get(key))
+      .andThen(cachedData =>
+        // Check if expired
+        Date.now() > cachedData.expiresAt ? Option.none() : Option.some(cachedData.data)
+      );
+  }
+  
+  // Deduplicates concurrent origin calls for the same key
+  private getFromSourceOnce = Result.singleFlight((key: string) => this.getFromSource(key), key => key);
+  
   // Helper to get from source and update cache
   private async getFromSource(key: string): Promise<AnyResult<T, CacheError>> {
     try {
@@ -165,6 +135,7 @@ class CacheService<T> {
   // Manual cache operations
   invalidate(key: string): void {
     this.cache.delete(key);
+    this.getFromSourceOnce.forget(key);
   }
   
   invalidateAll(): void {
@@ -212,6 +183,11 @@ async function main() {
   const result2 = await userCache.get('1');
   console.log('Result:', Result.isOk(result2) ? result2.data : result2.error);
   
+  // Concurrent fetches (a single API call)
+  console.log('\nConcurrent fetches (single flight):');
+  const concurrent = await Promise.all(Array.from({ length: 10 }, () => userCache.get('6')));
+  console.log('Results:', concurrent.filter(Result.isOk).length, 'successful');
+  
   // Simulate failure
   console.log('\nSimulating API failure:');
   failNextFetch = true;
@@ -230,6 +206,23 @@ async function main() {
   const staleResult = await userCache.getWithStaleWhileRevalidate('3');
   console.log('Result:', Result.isOk(staleResult) ? staleResult.data : staleResult.error);
   
+  // The same TTL and stale-while-revalidate strategies, without a hand-written cache
+  console.log('\nTesting Result.cached:');
+  const cachedFetchUser = Result.cached(
+    (userId: string) => Result.tryCatchAsync(() => fetchUser(userId)),
+    {
+      ttl: 5000,
+      staleWhileRevalidate: 60000, // Serve stale data for up to 1 minute while refreshing
+      cacheErrors: { ttl: 1000 }, // Don't hammer the API after a failure
+      key: userId => `user:${userId}`,
+      store: new LruStore(100)
+    }
+  );
+  
+  await cachedFetchUser('5'); // Cache miss
+  const cachedResult = await cachedFetchUser('5'); // Cache hit, no API call
+  console.log('Result:', Result.isOk(cachedResult) ? cachedResult.data : cachedResult.error);
+  
   // Circuit breaker example
   console.log('\nCircuit breaker test:');
   
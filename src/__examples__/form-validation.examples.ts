@@ -1,4 +1,4 @@
-import Result, { type AnyResult } from '../result';
+import Result, { AsyncResult, type AnyResult } from '../result';
 
 interface ValidationError {
   field: string;
@@ -59,56 +59,46 @@ class FormValidator {
     username: string
   ): Promise<AnyResult<string, ValidationError>> {
     // Simulate API call to check username
-    return Result.resolve<string, ValidationError>(
-      new Promise((resolve, reject) => {
-        setTimeout(() => {
-          if (username === 'admin') {
-            reject({ 
-              field: 'username', 
-              message: 'This username is already taken', 
-              code: 'already_exists' 
-            });
-          } else {
-            resolve(username);
-          }
-        }, 500);
-      })
-    );
+    const isAvailable = (username: string) =>
+      new Promise<boolean>(resolve => {
+        setTimeout(() => resolve(username !== 'admin'), 500);
+      });
+
+    return Result.fromAsync<string, ValidationError>(username, isAvailable, {
+      field: 'username',
+      message: 'This username is already taken',
+      code: 'already_exists'
+    });
   }
   
-  // Validate complete form
-  static async validateForm(
+  static validatePasswordMatch(
     form: RegistrationForm
-  ): Promise<AnyResult<RegistrationForm, ValidationError[]>> {
-    const errors: ValidationError[] = [];
-    
-    // Username validation with chained operations
-    const usernameResult = FormValidator.validateUsername(form.username);
-    if (Result.notOk(usernameResult)) {
-      errors.push(usernameResult.error);
-    } else {
-      // Only check availability if basic validation passes
-      const availabilityResult = await FormValidator.checkUsernameAvailability(form.username);
-      if (Result.notOk(availabilityResult)) {
-        errors.push(availabilityResult.error);
-      }
-    }
-    
-    // More validations would go here...
-    
-    // Check if passwords match
+  ): AnyResult<string, ValidationError> {
     if (form.password !== form.confirmPassword) {
-      errors.push({
+      return Result.not({
         field: 'confirmPassword',
         message: 'Passwords do not match',
         code: 'passwords_mismatch'
       });
     }
+
+    return Result.ok(form.password);
+  }
+  
+  // Validate complete form, collecting the errors of every field
+  static async validateForm(
+    form: RegistrationForm
+  ): Promise<AnyResult<RegistrationForm, ValidationError[]>> {
+    const result = await Result.validate({
+      // Only check availability if basic validation passes
+      username: AsyncResult.from(FormValidator.validateUsername(form.username))
+        .andThen(FormValidator.checkUsernameAvailability),
+      // More validations would go here...
+      password: FormValidator.validatePasswordMatch(form),
+    });
     
     // Return form data or validation errors
-    return errors.length === 0
-      ? Result.ok(form)
-      : Result.not(errors);
+    return result.to(() => form);
   }
 }
 
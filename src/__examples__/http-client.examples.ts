@@ -1,4 +1,4 @@
-import Result, { type AnyResult } from '../result';
+import Result, { type AsyncResult } from '../result';
 
 // Define our types
 interface HttpResponse<T> {
@@ -22,7 +22,7 @@ class HttpClient {
     this.baseUrl = baseUrl;
   }
   
-  async get<T>(path: string): Promise<AnyResult<HttpResponse<T>, HttpError>> {
+  get<T>(path: string): AsyncResult<HttpResponse<T>, HttpError> {
     return Result.tryCatchAsync<HttpResponse<T>, HttpError>(async () => {
       const response = await fetch(`${this.baseUrl}${path}`);
       
@@ -45,7 +45,7 @@ class HttpClient {
         headers,
         status: response.status
       };
-    });
+    }, { chain: true });
   }
 }
 
@@ -77,7 +77,7 @@ async function main() {
   }
   
   // Chained operations example
-  const processedResult = (await api.get<{items: string[]}>('/items'))
+  const processedResult = await api.get<{items: string[]}>('/items')
     .ok(response => response.data.items)
     .not(error => {
       // Log error and return empty list as fallback
@@ -0,0 +1,36 @@
+import { describe, it, expectTypeOf } from 'vitest';
+
+import Result, { type AnyResult } from '../result';
+import { andThen, flow, pipe } from '../fn';
+
+describe('fn types', () => {
+  describe('andThen', () => {
+    it('should infer the data and error of every result the callback returns', () => {
+      const result = pipe(
+        Result.ok<number, TypeError>(1),
+        andThen((num: number) =>
+          num > 0 ? Result.ok(String(num)) : Result.not('negative'),
+        ),
+      );
+
+      expectTypeOf(result).toEqualTypeOf<
+        AnyResult<string, TypeError | string>
+      >();
+    });
+
+    it('should keep the types through a flow', () => {
+      const parse = flow(
+        (input: string) => Result.ok<string, 'empty'>(input),
+        andThen((input: string) =>
+          Number.isNaN(Number(input))
+            ? Result.not('nan' as const)
+            : Result.ok(Number(input)),
+        ),
+      );
+
+      expectTypeOf(parse).returns.toEqualTypeOf<
+        AnyResult<number, 'empty' | 'nan'>
+      >();
+    });
+  });
+});
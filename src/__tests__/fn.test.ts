@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import Result, { type AnyResult } from '../result';
+import {
+  andThen,
+  defaultValue,
+  flow,
+  map,
+  mapErr,
+  not,
+  ok,
+  or,
+  pipe,
+  tap,
+  to,
+} from '../fn';
+
+const parseNumber = (input: string): AnyResult<number, string> => {
+  const value = Number(input);
+  return Number.isNaN(value)
+    ? Result.not(`${input} is not a number`)
+    : Result.ok(value);
+};
+
+const checkPositive = (value: number): AnyResult<number, string> =>
+  value > 0 ? Result.ok(value) : Result.not('Must be positive');
+
+describe('fn', () => {
+  describe('pipe', () => {
+    it('should pass the value through every operator', () => {
+      const value = pipe(
+        parseNumber('21'),
+        map((value) => value * 2),
+        mapErr((error) => error.toUpperCase()),
+        defaultValue(0),
+      );
+
+      expect(value).toBe(42);
+    });
+
+    it('should return the value when there are no operators', () => {
+      const result = Result.ok(1);
+      expect(pipe(result)).toBe(result);
+    });
+
+    it('should short-circuit on failures', () => {
+      const double = vi.fn((value: number) => value * 2);
+      const result = pipe(
+        parseNumber('abc'),
+        to(double),
+        mapErr((error) => new Error(error)),
+      );
+
+      expect(double).not.toHaveBeenCalled();
+      expect(result.error).toEqual(new Error('abc is not a number'));
+    });
+  });
+
+  describe('flow', () => {
+    it('should build a reusable pipeline', () => {
+      const parsePositive = flow(
+        (input: string) => input.trim(),
+        parseNumber,
+        andThen(checkPositive),
+      );
+
+      expect(parsePositive(' 5 ').data).toBe(5);
+      expect(parsePositive('-5').error).toBe('Must be positive');
+      expect(parsePositive('x').error).toBe('x is not a number');
+    });
+  });
+
+  describe('operators', () => {
+    it('should capture exceptions in ok and not', () => {
+      const failing = pipe(
+        parseNumber('1'),
+        ok((): number => {
+          throw new Error('Failed');
+        }),
+      );
+      const recovered = pipe(
+        parseNumber('x'),
+        not((error) => `Invalid: ${error}`),
+      );
+
+      expect(failing.error).toEqual(new Error('Failed'));
+      expect(recovered.error).toBe('Invalid: x is not a number');
+    });
+
+    it('should capture exceptions in andThen', () => {
+      const result = pipe(
+        parseNumber('1'),
+        andThen((): AnyResult<number, string> => {
+          throw new Error('Failed');
+        }),
+      );
+
+      expect(result.error).toEqual(new Error('Failed'));
+    });
+
+    it('should keep the value when ok returns nothing', () => {
+      const log = vi.fn();
+      const result = pipe(parseNumber('3'), ok(log));
+
+      expect(log).toHaveBeenCalledWith(3);
+      expect(result.data).toBe(3);
+    });
+
+    it('should run side effects with tap', () => {
+      const log = vi.fn();
+
+      pipe(parseNumber('3'), tap(log));
+      pipe(parseNumber('x'), tap(log));
+
+      expect(log).toHaveBeenCalledTimes(1);
+      expect(log).toHaveBeenCalledWith(3);
+    });
+
+    it('should extract values with defaultValue and or', () => {
+      expect(pipe(parseNumber('x'), defaultValue(-1))).toBe(-1);
+      expect(
+        pipe(
+          parseNumber('x'),
+          or((error) => error.length),
+        ),
+      ).toBe(17);
+      expect(
+        pipe(
+          parseNumber('7'),
+          or(() => 0),
+        ),
+      ).toBe(7);
+    });
+  });
+});
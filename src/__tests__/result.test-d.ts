@@ -0,0 +1,159 @@
+import { describe, it, expectTypeOf } from 'vitest';
+
+import Result, { AsyncResult, type AnyResult } from '../result';
+
+describe('Result types', () => {
+  describe('kind', () => {
+    it('should narrow data and error on the discriminant', () => {
+      const result = Result.not<string, number>('failed') as AnyResult<
+        number,
+        string
+      >;
+
+      if (result.kind === Result.OK) {
+        expectTypeOf(result.data).toEqualTypeOf<number>();
+        expectTypeOf(result.error).toEqualTypeOf<null>();
+      } else {
+        expectTypeOf(result.data).toEqualTypeOf<null>();
+        expectTypeOf(result.error).toEqualTypeOf<string>();
+      }
+    });
+  });
+
+  describe('match', () => {
+    const promise = Promise.resolve(
+      Result.not<TypeError, number>(new TypeError()),
+    );
+
+    it('should type the not handler with the error when rejected is given', () => {
+      Result.match(promise, {
+        ok: (data) => expectTypeOf(data).toEqualTypeOf<number>(),
+        not: (error) => expectTypeOf(error).toEqualTypeOf<TypeError>(),
+        rejected: (reason) => expectTypeOf(reason).toEqualTypeOf<unknown>(),
+      });
+    });
+
+    it('should type the not handler as unknown when it also receives rejections', () => {
+      Result.match(promise, {
+        ok: (data) => expectTypeOf(data).toEqualTypeOf<number>(),
+        not: (error) => expectTypeOf(error).toEqualTypeOf<unknown>(),
+      });
+    });
+  });
+
+  describe('andThen method', () => {
+    it('should infer the data and error of every result the callback returns', () => {
+      const result = Result.ok(1).andThen((num) =>
+        num > 0 ? Result.ok(num) : Result.not('negative'),
+      );
+
+      expectTypeOf(result).toEqualTypeOf<AnyResult<number, Error | string>>();
+    });
+
+    it('should keep the error of a typed callback result', () => {
+      const parse = (value: string): AnyResult<number, 'nan'> =>
+        Number.isNaN(Number(value))
+          ? Result.not('nan')
+          : Result.ok(Number(value));
+
+      const result = Result.ok<string, TypeError>('42').andThen(parse);
+
+      expectTypeOf(result).toEqualTypeOf<
+        AnyResult<number, TypeError | 'nan'>
+      >();
+    });
+
+    it('should be aliased by flatMap', () => {
+      const result = Result.ok(1).flatMap((num) =>
+        num > 0 ? Result.ok(String(num)) : Result.not('negative'),
+      );
+
+      expectTypeOf(result).toEqualTypeOf<AnyResult<string, Error | string>>();
+    });
+  });
+
+  describe('orElse method', () => {
+    it('should infer the data and error of every result the callback returns', () => {
+      const result = Result.not<string, number>('missing').orElse((error) =>
+        error === 'missing'
+          ? Result.ok('fallback')
+          : Result.not(new TypeError(error)),
+      );
+
+      expectTypeOf(result).toEqualTypeOf<
+        AnyResult<number | string, TypeError>
+      >();
+    });
+  });
+
+  describe('AsyncResult', () => {
+    it('should infer the data and error of the results an async callback returns', () => {
+      const result = AsyncResult.from(Result.ok<number, Error>(1)).andThen(
+        async (num) =>
+          num > 0 ? Result.ok(String(num)) : Result.not('negative'),
+      );
+
+      expectTypeOf(result).resolves.toEqualTypeOf<
+        AnyResult<string, Error | string>
+      >();
+    });
+
+    it('should accept an AsyncResult returned by the callback', () => {
+      const result = AsyncResult.from(Result.ok<number, Error>(1)).flatMap(
+        (num) => AsyncResult.from(Result.ok<number, 'nan'>(num * 2)),
+      );
+
+      expectTypeOf(result).resolves.toEqualTypeOf<
+        AnyResult<number, Error | 'nan'>
+      >();
+    });
+
+    it('should infer the results returned by orElse', () => {
+      const result = AsyncResult.from(
+        Result.not<string, number>('missing'),
+      ).orElse(async () => Result.ok('fallback'));
+
+      expectTypeOf(result).resolves.toEqualTypeOf<
+        AnyResult<number | string, never>
+      >();
+    });
+  });
+
+  describe('decorators', () => {
+    it('should require the mapped error to match the declared error type', () => {
+      class AuthError {
+        constructor(public reason: string) {}
+      }
+
+      class AuthenticationService {
+        @Result.capture({ mapError: (error) => new AuthError(String(error)) })
+        public login(): AnyResult<string, AuthError> {
+          return Result.ok('session');
+        }
+
+        // @ts-expect-error The mapped error must match the declared error type
+        @Result.capture({ mapError: (error) => String(error) })
+        public check(): AnyResult<boolean, AuthError> {
+          return Result.ok(true);
+        }
+      }
+
+      expectTypeOf<AuthenticationService['login']>().returns.toEqualTypeOf<
+        AnyResult<string, AuthError>
+      >();
+    });
+  });
+
+  describe('race', () => {
+    it('should require at least one operation', () => {
+      // @ts-expect-error An empty race would never settle
+      Result.race([]);
+
+      expectTypeOf(
+        Result.race([
+          async (): Promise<AnyResult<number, string>> => Result.ok(1),
+        ]),
+      ).resolves.toEqualTypeOf<AnyResult<number, string>>();
+    });
+  });
+});
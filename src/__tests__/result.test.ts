@@ -1,6 +1,28 @@
-import { describe, it, expect, vi } from 'vitest';
-
-import Result from '../result';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+
+import Result, {
+  AbortedError,
+  AsyncResult,
+  CircuitOpenError,
+  ContextError,
+  defineError,
+  LruStore,
+  Option,
+  RetryError,
+  TimeoutError,
+  toError,
+  UnwrapError,
+  type AnyOption,
+  type AnyResult,
+} from '../result';
+
+const manualClock = () => {
+  let now = 0;
+  return {
+    clock: () => now,
+    advance: (ms: number) => (now += ms),
+  };
+};
 
 describe('Result', () => {
   describe('static constructors', () => {
@@ -19,10 +41,42 @@ describe('Result', () => {
 
       expect(Result.isOk(result)).toBe(true);
       expect(Result.notOk(result)).toBe(false);
-      expect(result.data).toBe(Result.OK);
+      expect(result.data).toBeUndefined();
       expect(result.error).toBeNull();
     });
 
+    it('should create a void success result', () => {
+      const result = Result.void();
+
+      expect(Result.isOk(result)).toBe(true);
+      expect(result.data).toBeUndefined();
+    });
+
+    it('should keep null and undefined payloads', () => {
+      const okNull = Result.ok(null);
+      const okUndefined = Result.ok(undefined);
+      const notNull = Result.not(null);
+
+      expect(Result.isOk(okNull)).toBe(true);
+      expect(okNull.data).toBeNull();
+      expect(Result.isOk(okUndefined)).toBe(true);
+      expect(okUndefined.data).toBeUndefined();
+      expect(Result.notOk(notNull)).toBe(true);
+      expect(notNull.error).toBeNull();
+    });
+
+    it('should not call function payloads', () => {
+      const handler = vi.fn();
+      const Constructor = class {};
+      const result = Result.ok(handler);
+      const failure = Result.not(handler);
+
+      expect(result.data).toBe(handler);
+      expect(failure.error).toBe(handler);
+      expect(Result.ok(Constructor).data).toBe(Constructor);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
     it('should create failure result with error', () => {
       const error = new Error('Test error');
       const result = Result.not(error);
@@ -56,6 +110,34 @@ describe('Result', () => {
     });
   });
 
+  describe('kind', () => {
+    it('should be Result.OK for success results', () => {
+      const result = Result.ok(42);
+
+      expect(result.kind).toBe(Result.OK);
+    });
+
+    it('should be Result.NOT for failure results', () => {
+      const result = Result.not(new Error('Test error'));
+
+      expect(result.kind).toBe(Result.NOT);
+    });
+
+    it('should discriminate results in a switch', () => {
+      const format = (result: AnyResult<number, string>) => {
+        switch (result.kind) {
+          case Result.OK:
+            return `data: ${result.data.toFixed(1)}`;
+          case Result.NOT:
+            return `error: ${result.error.toUpperCase()}`;
+        }
+      };
+
+      expect(format(Result.ok(42))).toBe('data: 42.0');
+      expect(format(Result.not('failed'))).toBe('error: FAILED');
+    });
+  });
+
   describe('Result.resolve', () => {
     it('should handle successful promises', async () => {
       const promise = Promise.resolve('test');
@@ -110,6 +192,28 @@ describe('Result', () => {
       expect(matched).toBe('Test error');
     });
 
+    it('should propagate a rejected promise when matching success', async () => {
+      const error = new Error('Rejected');
+      const matched = Result.match(
+        Result.OK,
+        Promise.reject(error),
+        (data) => data,
+      );
+
+      await expect(matched).rejects.toBe(error);
+    });
+
+    it('should call the handler with the reason of a rejected promise when matching failure', async () => {
+      const error = new Error('Rejected');
+      const matched = await Result.match(
+        Result.NOT,
+        Promise.reject(error),
+        (err) => err,
+      );
+
+      expect(matched).toBe(error);
+    });
+
     it('should return null when matching wrong case', () => {
       const success = Result.ok('test');
       const failure = Result.not(new Error('test'));
@@ -169,6 +273,429 @@ describe('Result', () => {
 
       expect(matched).toBeNull();
     });
+
+    it('should call the not handler for a promise resolving to a failure', async () => {
+      const promise = Promise.resolve(Result.not(new Error('Test error')));
+      const matched = await Result.match(promise, {
+        ok: (data) => String(data),
+        not: (err) => err.message,
+        rejected: () => 'rejected',
+      });
+
+      expect(matched).toBe('Test error');
+    });
+
+    it('should call the not handler for a rejected promise without a rejected handler', async () => {
+      const promise = Promise.reject(new Error('Rejected'));
+      const matched = await Result.match(promise, {
+        ok: (data) => String(data),
+        not: (err) => (err as Error).message,
+      });
+
+      expect(matched).toBe('Rejected');
+    });
+
+    it('should call the rejected handler for a rejected promise', async () => {
+      const not = vi.fn();
+      const promise = Promise.reject(new Error('Rejected'));
+      const matched = await Result.match(promise, {
+        ok: (data) => String(data),
+        not,
+        rejected: (reason) => `rejected: ${(reason as Error).message}`,
+      });
+
+      expect(matched).toBe('rejected: Rejected');
+      expect(not).not.toHaveBeenCalled();
+    });
+
+    it('should propagate a rejected promise without not or rejected handlers', async () => {
+      const error = new Error('Rejected');
+      const matched = Result.match(Promise.reject(error), {
+        ok: (data) => String(data),
+      });
+
+      await expect(matched).rejects.toBe(error);
+    });
+
+    it('should not route errors thrown by the ok handler to the not handler', async () => {
+      const not = vi.fn();
+      const promise = Promise.resolve(Result.ok('test'));
+      const matched = Result.match(promise, {
+        ok: () => {
+          throw new Error('Handler error');
+        },
+        not,
+      });
+
+      await expect(matched).rejects.toThrow('Handler error');
+      expect(not).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('matcher', () => {
+    class TimeoutError extends Error {
+      constructor(public readonly timeout: number) {
+        super(`Timed out after ${timeout}ms`);
+      }
+    }
+
+    type AuthError =
+      | { code: 'invalid_credentials'; message: string }
+      | { code: 'account_locked'; until: number };
+
+    const describeLogin = (
+      result: AnyResult<string, AuthError | TimeoutError>,
+    ) =>
+      Result.matcher(result)
+        .ok((name) => `Welcome, ${name}`)
+        .not({ code: 'invalid_credentials' }, (error) => error.message)
+        .not(
+          { code: 'account_locked' },
+          (error) => `Locked until ${error.until}`,
+        )
+        .not(TimeoutError, (error) => `Timeout: ${error.timeout}`)
+        .exhaustive();
+
+    it('should call the success handler', () => {
+      expect(describeLogin(Result.ok('John'))).toBe('Welcome, John');
+    });
+
+    it('should match errors by partial object pattern', () => {
+      expect(
+        describeLogin(
+          Result.not({
+            code: 'invalid_credentials',
+            message: 'Wrong password',
+          }),
+        ),
+      ).toBe('Wrong password');
+      expect(
+        describeLogin(Result.not({ code: 'account_locked', until: 10 })),
+      ).toBe('Locked until 10');
+    });
+
+    it('should match errors by class', () => {
+      expect(describeLogin(Result.not(new TimeoutError(500)))).toBe(
+        'Timeout: 500',
+      );
+    });
+
+    it('should use the first matching handler', () => {
+      const matched = Result.matcher(Result.not<string, number>('not_found'))
+        .ok(String)
+        .not('not_found', () => 'specific')
+        .not(() => 'catch-all')
+        .exhaustive();
+
+      expect(matched).toBe('specific');
+    });
+
+    it('should throw when no handler matches at runtime', () => {
+      const unexpected = Result.not({
+        code: 'unexpected',
+      }) as unknown as AnyResult<string, AuthError>;
+
+      expect(() => describeLogin(unexpected)).toThrow(
+        'No handler matched the result of kind "not".',
+      );
+    });
+
+    it('should call the fallback with otherwise', () => {
+      const matched = Result.matcher(
+        Result.not<AuthError, string>({ code: 'account_locked', until: 10 }),
+      )
+        .ok((name) => name)
+        .not({ code: 'invalid_credentials' }, (error) => error.message)
+        .otherwise((result) => `Fallback: ${result.kind}`);
+
+      expect(matched).toBe('Fallback: not');
+    });
+
+    it('should match promises of results', async () => {
+      const matched = Result.matcher(
+        Promise.resolve(Result.not(new TimeoutError(100))),
+      )
+        .ok(() => 'ok')
+        .not(TimeoutError, (error) => error.timeout)
+        .exhaustive();
+
+      expect(matched).toBeInstanceOf(Promise);
+      expect(await matched).toBe(100);
+    });
+  });
+
+  describe('matchError', () => {
+    type BusinessError =
+      | { code: 'insufficient_inventory'; items: string[] }
+      | { code: 'payment_limit_exceeded'; limit: number };
+
+    const handlers = {
+      insufficient_inventory: (error: { items: string[] }) =>
+        `Unavailable: ${error.items.join(', ')}`,
+      payment_limit_exceeded: (error: { limit: number }) =>
+        `Limit is ${error.limit}`,
+    };
+
+    it('should pass the successful value through', () => {
+      const result = Result.ok<string, BusinessError>('order-1');
+
+      expect(result.matchError('code', handlers)).toBe('order-1');
+    });
+
+    it('should call the handler of the discriminant value', () => {
+      const result = Result.not<BusinessError, string>({
+        code: 'payment_limit_exceeded',
+        limit: 100,
+      });
+
+      expect(result.matchError('code', handlers)).toBe('Limit is 100');
+    });
+
+    it('should throw when no handler exists for the value at runtime', () => {
+      const result = Result.not({ code: 'unknown' }) as unknown as AnyResult<
+        string,
+        BusinessError
+      >;
+
+      expect(() => result.matchError('code', handlers)).toThrow(
+        'No handler matched the error "code" value "unknown".',
+      );
+    });
+
+    it('should match with the static version', () => {
+      const result = Result.not<BusinessError, string>({
+        code: 'insufficient_inventory',
+        items: ['prod-1'],
+      });
+
+      expect(Result.matchError(result, 'code', handlers)).toBe(
+        'Unavailable: prod-1',
+      );
+    });
+
+    it('should match promises with the static version', async () => {
+      const result = Promise.resolve(
+        Result.not<BusinessError, string>({
+          code: 'payment_limit_exceeded',
+          limit: 50,
+        }),
+      );
+
+      expect(await Result.matchError(result, 'code', handlers)).toBe(
+        'Limit is 50',
+      );
+    });
+  });
+
+  describe('defineError', () => {
+    const NotFound = defineError('NotFound', {
+      code: 'not_found',
+      status: 404,
+    })<{ id: string }>();
+    const Forbidden = defineError('Forbidden', { status: 403 })();
+
+    it('should create errors with tag, properties and payload', () => {
+      const error = new NotFound({ id: 'user-1' });
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error).toBeInstanceOf(NotFound);
+      expect(error._tag).toBe('NotFound');
+      expect(error.name).toBe('NotFound');
+      expect(error.message).toBe('NotFound');
+      expect(error.code).toBe('not_found');
+      expect(error.status).toBe(404);
+      expect(error.id).toBe('user-1');
+      expect(error.stack).toContain('NotFound');
+      expect(NotFound._tag).toBe('NotFound');
+    });
+
+    it('should accept a message and a cause', () => {
+      const cause = new Error('Connection refused');
+      const error = new Forbidden(undefined, { message: 'Denied', cause });
+
+      expect(error.message).toBe('Denied');
+      expect(error.cause).toBe(cause);
+    });
+
+    it('should narrow with is()', () => {
+      expect(NotFound.is(new NotFound({ id: '1' }))).toBe(true);
+      expect(NotFound.is(new Forbidden())).toBe(false);
+      expect(NotFound.is(new Error('NotFound'))).toBe(false);
+    });
+
+    it('should serialize to JSON', () => {
+      const error = new NotFound(
+        { id: 'user-1' },
+        { message: 'User not found', cause: new Forbidden() },
+      );
+
+      expect(JSON.parse(JSON.stringify(error))).toEqual({
+        _tag: 'NotFound',
+        name: 'NotFound',
+        message: 'User not found',
+        code: 'not_found',
+        status: 404,
+        id: 'user-1',
+        cause: {
+          _tag: 'Forbidden',
+          name: 'Forbidden',
+          message: 'Forbidden',
+          status: 403,
+        },
+      });
+    });
+
+    it('should work as the error of a result', () => {
+      const result = Result.not(new NotFound({ id: 'user-1' }));
+
+      expect(
+        Result.matcher(result)
+          .ok(() => '')
+          .not(NotFound, (error) => error.id)
+          .exhaustive(),
+      ).toBe('user-1');
+    });
+  });
+
+  describe('context', () => {
+    it('should wrap the error and keep it as the cause', () => {
+      const cause = new Error('Card declined');
+      const result = Result.not(cause).context('charging customer');
+
+      expect(Result.notOk(result)).toBe(true);
+      expect(result.error).toBeInstanceOf(ContextError);
+      expect(result.error?.message).toBe('charging customer');
+      expect(result.error?.cause).toBe(cause);
+    });
+
+    it('should leave successful results untouched', () => {
+      const getMessage = vi.fn(() => 'never');
+      const result = Result.ok(1).context('unused').withContext(getMessage);
+
+      expect(result.data).toBe(1);
+      expect(getMessage).not.toHaveBeenCalled();
+    });
+
+    it('should compute the message from the error', () => {
+      const result = Result.not({ code: 'ENOENT' }).withContext(
+        (error) => `reading config (${error.code})`,
+      );
+
+      expect(result.error?.message).toBe('reading config (ENOENT)');
+    });
+
+    it('should add context to async results', async () => {
+      const result = await Result.tryCatchAsync(
+        async () => {
+          throw new Error('timeout');
+        },
+        { chain: true },
+      ).context('fetching orders');
+
+      expect(result.error?.message).toBe('fetching orders');
+      expect(result.error?.cause).toEqual(new Error('timeout'));
+    });
+
+    it('should report the whole cause chain', () => {
+      const result = Result.not(new Error('Card declined'))
+        .context('charging customer cust-456')
+        .context('processing order ord-123');
+
+      expect(Result.report(result.error)).toBe(
+        [
+          'ContextError: processing order ord-123',
+          '  caused by: ContextError: charging customer cust-456',
+          '    caused by: Error: Card declined',
+        ].join('\n'),
+      );
+    });
+
+    it('should report aggregated errors and non-error values', () => {
+      const error = Object.assign(new Error('All failed'), {
+        name: 'AggregateError',
+        errors: [new Error('first'), { code: 42 }],
+      });
+
+      expect(Result.report(error)).toBe(
+        [
+          'AggregateError: All failed',
+          '  error 1: Error: first',
+          '  error 2: {"code":42}',
+        ].join('\n'),
+      );
+    });
+
+    it('should stop at circular causes', () => {
+      const error: Error & { cause?: unknown } = new Error('loop');
+      error.cause = error;
+
+      expect(Result.report(error)).toBe(
+        ['Error: loop', '  caused by: [Circular]'].join('\n'),
+      );
+    });
+  });
+
+  describe('Option', () => {
+    const findUser = (id: string): AnyOption<{ name: string }> =>
+      id === '1' ? Option.some({ name: 'Ada' }) : Option.none();
+
+    it('should create present and absent values', () => {
+      expect(Option.some(0).kind).toBe(Option.SOME);
+      expect(Option.none().kind).toBe(Option.NONE);
+      expect(Option.isSome(Option.fromNullable(0))).toBe(true);
+      expect(Option.isNone(Option.fromNullable(null))).toBe(true);
+      expect(Option.isNone(Option.fromNullable(undefined))).toBe(true);
+    });
+
+    it('should map, chain and unwrap the value', () => {
+      expect(findUser('1').map((user) => user.name).value).toBe('Ada');
+      expect(findUser('2').map((user) => user.name).kind).toBe(Option.NONE);
+      expect(
+        findUser('1').andThen((user) => Option.fromNullable(user.name[5])).kind,
+      ).toBe(Option.NONE);
+      expect(findUser('2').unwrapOr('guest')).toBe('guest');
+    });
+
+    it('should match the value', () => {
+      const greet = (id: string) =>
+        findUser(id).match({
+          some: (user) => `Hello, ${user.name}`,
+          none: () => 'Hello, guest',
+        });
+
+      expect(greet('1')).toBe('Hello, Ada');
+      expect(greet('2')).toBe('Hello, guest');
+    });
+
+    it('should convert between options and results', async () => {
+      const missing = Result.fromOption(findUser('2'), () => 'User not found');
+
+      expect(Result.fromOption(findUser('1'), () => '').data).toEqual({
+        name: 'Ada',
+      });
+      expect(missing.error).toBe('User not found');
+      expect(missing.toOption().kind).toBe(Option.NONE);
+      expect(Result.ok(1).toOption().value).toBe(1);
+      expect((await AsyncResult.from(Result.ok(1)).toOption()).value).toBe(1);
+    });
+
+    it('should transpose results and options', () => {
+      const some = Result.transpose(Result.ok(Option.some(1)));
+      const none = Result.transpose(Result.ok(Option.none()));
+      const failure = Result.transpose(
+        Result.not<string, AnyOption<number>>('Invalid'),
+      );
+
+      expect(Option.isSome(some) && some.value.data).toBe(1);
+      expect(none.kind).toBe(Option.NONE);
+      expect(Option.isSome(failure) && failure.value.error).toBe('Invalid');
+
+      expect(Result.transpose(some).data?.value).toBe(1);
+      expect(Result.transpose(Option.none()).data?.kind).toBe(Option.NONE);
+      expect(Result.transpose(Option.some(Result.not('Invalid'))).error).toBe(
+        'Invalid',
+      );
+    });
   });
 
   describe('tryCatch', () => {
@@ -248,112 +775,1555 @@ describe('Result', () => {
       expect((result.error as CustomError).code).toBe('CUSTOM');
     });
   });
-  describe('from', () => {
-    it('should create success result when condition is true', () => {
-      const result = Result.from(42, true, new Error('Not used'));
-
-      expect(Result.isOk(result)).toBe(true);
-      expect(result.data).toBe(42);
+  describe('cancellation', () => {
+    afterEach(() => {
+      vi.useRealTimers();
     });
 
-    it('should create failure result when condition is false', () => {
-      const error = new Error('Value must be positive');
-      const result = Result.from(-10, false, error);
+    const never = (signal: AbortSignal) =>
+      new Promise<string>((_, reject) => {
+        signal.addEventListener('abort', () => reject(signal.reason));
+      });
 
-      expect(Result.notOk(result)).toBe(true);
-      expect(result.error).toBe(error);
-    });
+    it('should fail with a TimeoutError and abort the callback', async () => {
+      vi.useFakeTimers();
+      let signal: AbortSignal | undefined;
 
-    it('should evaluate function condition with value', () => {
-      const positive = Result.from(
-        42,
-        (value) => value > 0,
-        new Error('Must be positive'),
-      );
-      const negative = Result.from(
-        -10,
-        (value) => value > 0,
-        new Error('Must be positive'),
+      const pending = Result.tryCatchAsync(
+        (callbackSignal) => {
+          signal = callbackSignal;
+          return never(callbackSignal);
+        },
+        { timeout: 1_000 },
       );
+      await vi.advanceTimersByTimeAsync(1_000);
+      const result = await pending;
 
-      expect(Result.isOk(positive)).toBe(true);
-      expect(Result.notOk(negative)).toBe(true);
+      expect(result.error).toBeInstanceOf(TimeoutError);
+      expect(result.error?.message).toBe('Timed out after 1000ms');
+      expect(signal?.aborted).toBe(true);
+      expect(vi.getTimerCount()).toBe(0);
     });
 
-    it('should accept function for value', () => {
-      const getValue = () => 42;
-      const result = Result.from(getValue, true, new Error('Not used'));
-
-      expect(Result.isOk(result)).toBe(true);
-      expect(result.data).toBe(42);
-    });
+    it('should clear the timer when the callback settles', async () => {
+      vi.useFakeTimers();
 
-    it('should accept function for error', () => {
-      const getError = () => new Error('Generated error');
-      const result = Result.from(10, false, getError);
+      const result = await Result.tryCatchAsync(async () => 'done', {
+        timeout: 1_000,
+      });
 
-      expect(Result.notOk(result)).toBe(true);
-      expect(result.error).toBeInstanceOf(Error);
-      if (result.error) {
-        expect(result.error.message).toBe('Generated error');
-      }
+      expect(result.data).toBe('done');
+      expect(vi.getTimerCount()).toBe(0);
     });
-  });
 
-  describe('instance methods', () => {
-    describe('to', () => {
-      it('should transform successful result', () => {
-        const result = Result.ok(42);
-        const transformed = result.to((num) => num * 2);
+    it('should fail with an AbortedError when the signal is aborted', async () => {
+      const controller = new AbortController();
 
-        expect(Result.isOk(transformed)).toBe(true);
-        expect(transformed.data).toBe(84);
+      const pending = Result.tryCatchAsync(never, {
+        signal: controller.signal,
+        chain: true,
       });
+      controller.abort('Navigated away');
+      const result = await pending;
 
-      it('should pass through error for failure result', () => {
-        const error = new Error('Original error');
-        const result = Result.not(error);
-        const transformed = result.to((num) => (num as any) * 2);
+      expect(result.error).toBeInstanceOf(AbortedError);
+      expect((result.error as Error & { cause?: unknown }).cause).toBe(
+        'Navigated away',
+      );
+    });
 
-        expect(Result.notOk(transformed)).toBe(true);
-        expect(transformed.error).toBe(error);
+    it('should not call the callback when the signal is already aborted', async () => {
+      const callback = vi.fn(async () => 'done');
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await Result.tryCatchAsync(callback, {
+        signal: controller.signal,
       });
+
+      expect(result.error).toBeInstanceOf(AbortedError);
+      expect(callback).not.toHaveBeenCalled();
     });
 
-    describe('value', () => {
-      it('should return the value directly', () => {
-        const result = Result.ok(42);
-        const value = result.value();
+    it('should stop waiting for a promise on timeout', async () => {
+      vi.useFakeTimers();
 
-        expect(value).toBe(42);
+      const pending = Result.resolve(new Promise<string>(() => {}), {
+        timeout: 500,
       });
+      await vi.advanceTimersByTimeAsync(500);
 
-      it('should transform the value with a mutator', () => {
-        const result = Result.ok(42);
-        const value = result.value((num) => num * 2);
+      expect((await pending).error).toBeInstanceOf(TimeoutError);
+    });
+  });
 
-        expect(value).toBe(84);
+  describe('race', () => {
+    const never = (signal: AbortSignal) =>
+      new Promise<string>((_, reject) => {
+        signal.addEventListener('abort', () => reject(signal.reason));
       });
 
-      it('should return null for failure result', () => {
-        const result = Result.not(new Error('Test error'));
-        const value = result.value();
+    it('should return the first result to settle and abort the rest', async () => {
+      const signals: AbortSignal[] = [];
+      const slow = (signal: AbortSignal) => {
+        signals.push(signal);
+        return new Promise<AnyResult<string, string>>(() => {});
+      };
 
-        expect(value).toBeNull();
-      });
-    });
+      const result = await Result.race([
+        slow,
+        async () => Result.not<string, string>('Unavailable'),
+      ]);
 
-    describe('defaultValue', () => {
-      it('should return the original value for success result', () => {
-        const result = Result.ok(42);
-        const value = result.defaultValue(0);
+      expect(result.error).toBe('Unavailable');
+      expect(signals[0].aborted).toBe(true);
+    });
 
-        expect(value).toBe(42);
-      });
+    it('should capture rejections as failures', async () => {
+      const error = new Error('Crashed');
 
-      it('should return the default value for failure result', () => {
-        const result = Result.not(new Error('Test error'));
-        const value = result.defaultValue(0);
+      const result = await Result.race([
+        () => Promise.reject(error),
+        () => new Promise<AnyResult<number, Error>>(() => {}),
+      ]);
+
+      expect(result.error).toBe(error);
+    });
+
+    it('should fail with a TimeoutError when nothing settles in time', async () => {
+      vi.useFakeTimers();
+
+      try {
+        const pending = Result.race(
+          [(signal) => never(signal).then(Result.ok)],
+          { timeout: 100 },
+        );
+        await vi.advanceTimersByTimeAsync(100);
+
+        expect((await pending).error).toBeInstanceOf(TimeoutError);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('normalizeError', () => {
+    afterEach(() => {
+      Result.configure({ normalizeError: undefined });
+    });
+
+    it('should wrap non-error values with the original as cause', () => {
+      const result = Result.tryCatch(() => {
+        throw { code: 42 };
+      }, toError);
+
+      expect(result.error).toBeInstanceOf(Error);
+      expect(result.error?.message).toBe('{"code":42}');
+      expect((result.error as { cause?: unknown }).cause).toEqual({ code: 42 });
+    });
+
+    it('should keep errors as they are', () => {
+      const error = new TypeError('Invalid');
+      expect(toError(error)).toBe(error);
+    });
+
+    it('should apply a per-call normalizer to promises', async () => {
+      const toCode = (error: unknown) => ({ code: String(error) });
+
+      const resolved = await Result.resolve(Promise.reject('offline'), {
+        normalizeError: toCode,
+      });
+      const chained = await Result.tryCatchAsync(
+        () => Promise.reject('timeout'),
+        { chain: true, normalizeError: toCode },
+      ).not((error) => error.code);
+
+      expect(resolved.error).toEqual({ code: 'offline' });
+      expect(chained.error).toBe('timeout');
+    });
+
+    it('should normalize errors thrown by ok and not callbacks', async () => {
+      const okResult = Result.ok(1).ok(() => {
+        throw 'ok failed';
+      }, toError);
+      const notResult = Result.not('x').not(() => {
+        throw 'not failed';
+      }, toError);
+      const asyncResult = await AsyncResult.from(Result.ok(1)).ok(async () => {
+        throw 'async failed';
+      }, toError);
+
+      expect(okResult.error).toEqual(new Error('ok failed'));
+      expect(notResult.error).toEqual(new Error('not failed'));
+      expect(asyncResult.error).toEqual(new Error('async failed'));
+    });
+
+    it('should use the configured normalizer by default', async () => {
+      const previous = Result.configure({ normalizeError: toError });
+
+      const thrown = Result.tryCatch(() => {
+        throw 'boom';
+      });
+      const chained = Result.ok(1).andThen(() => {
+        throw 404;
+      });
+      const rejected = await Result.resolve(Promise.reject(null));
+
+      expect(previous).toEqual({});
+      expect(thrown.error).toEqual(new Error('boom'));
+      expect(chained.error).toEqual(new Error('404'));
+      expect(rejected.error).toEqual(new Error('null'));
+    });
+
+    it('should prefer the per-call normalizer', () => {
+      Result.configure({ normalizeError: toError });
+
+      const result = Result.tryCatch(
+        () => {
+          throw 'boom';
+        },
+        (error) => `normalized ${error}`,
+      );
+
+      expect(result.error).toBe('normalized boom');
+    });
+  });
+
+  describe('captureExceptions', () => {
+    class HttpError extends Error {}
+    class ValidationError extends Error {}
+
+    afterEach(() => {
+      Result.configure({ captureExceptions: undefined });
+    });
+
+    it('should only capture the listed error classes', () => {
+      const result = Result.tryCatch(
+        () => {
+          throw new ValidationError('Invalid email');
+        },
+        { catch: [HttpError, ValidationError] },
+      );
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(() =>
+        Result.tryCatch(
+          () => {
+            throw new TypeError('x is undefined');
+          },
+          { catch: [HttpError, ValidationError] },
+        ),
+      ).toThrow(TypeError);
+    });
+
+    it('should reject with exceptions that are not captured', async () => {
+      const bug = new ReferenceError('user is not defined');
+
+      await expect(
+        Result.resolve(Promise.reject(bug), { catch: [HttpError] }),
+      ).rejects.toBe(bug);
+      await expect(
+        Result.tryCatchAsync(() => Promise.reject(new HttpError()), {
+          catch: [HttpError],
+          chain: true,
+        }).ok(() => 'unreachable'),
+      ).resolves.toHaveProperty('error', new HttpError());
+    });
+
+    it('should reject with exceptions that are not captured when chaining', async () => {
+      const bug = new TypeError('user is undefined');
+
+      await expect(
+        Result.tryCatchAsync(
+          async () => {
+            throw bug;
+          },
+          { catch: [HttpError], chain: true },
+        ),
+      ).rejects.toBe(bug);
+      await expect(
+        Result.resolve(Promise.reject(bug), {
+          catch: [HttpError],
+          chain: true,
+        }).ok(() => 'unreachable'),
+      ).rejects.toBe(bug);
+    });
+
+    it('should keep rejecting with exceptions that are not captured through combinators', async () => {
+      const bug = new TypeError('user is undefined');
+      const fetchUser = () =>
+        Result.resolve(Promise.reject(bug), { catch: [HttpError] });
+
+      await expect(Result.all([fetchUser(), Result.ok(1)])).rejects.toBe(bug);
+      await expect(
+        Result.genAsync(async function* () {
+          return yield* await fetchUser();
+        }),
+      ).rejects.toBe(bug);
+    });
+
+    it('should reject Result.any with exceptions that are not captured', async () => {
+      Result.configure({ captureExceptions: 'none' });
+      const bug = new TypeError('user is undefined');
+
+      await expect(
+        Result.any([
+          Promise.reject(bug),
+          new Promise<AnyResult<number, string>>(() => {}),
+        ]),
+      ).rejects.toBe(bug);
+    });
+
+    it('should reject Result.race with exceptions that are not captured', async () => {
+      Result.configure({
+        captureExceptions: (error) => !(error instanceof TypeError),
+      });
+      const bug = new TypeError('user is undefined');
+
+      await expect(
+        Result.race([
+          () => Promise.reject(bug),
+          () => new Promise<AnyResult<number, string>>(() => {}),
+        ]),
+      ).rejects.toBe(bug);
+    });
+
+    it('should rethrow everything with the none policy', () => {
+      Result.configure({ captureExceptions: 'none' });
+
+      expect(() =>
+        Result.tryCatch(() => {
+          throw new HttpError('Offline');
+        }),
+      ).toThrow('Offline');
+      expect(() =>
+        Result.ok(1).ok(() => {
+          throw new HttpError('Offline');
+        }),
+      ).toThrow('Offline');
+    });
+
+    it('should capture what the configured predicate accepts', () => {
+      Result.configure({
+        captureExceptions: (error) => !(error instanceof TypeError),
+      });
+
+      const result = Result.ok(1).andThen(() => {
+        throw new HttpError('Offline');
+      });
+
+      expect(result.error).toBeInstanceOf(HttpError);
+      expect(() =>
+        Result.ok(null as unknown as { id: number }).ok((user) => user.id),
+      ).toThrow(TypeError);
+    });
+
+    it('should prefer the per-call catch list', () => {
+      Result.configure({ captureExceptions: 'none' });
+
+      const result = Result.tryCatch(
+        () => {
+          throw new HttpError('Offline');
+        },
+        { catch: [HttpError] },
+      );
+
+      expect(result.error).toBeInstanceOf(HttpError);
+    });
+  });
+
+  describe('AsyncResult', () => {
+    it('should return an AsyncResult from resolve when chaining', async () => {
+      const chained = Result.resolve(Promise.resolve(21), { chain: true });
+      expect(chained).toBeInstanceOf(AsyncResult);
+
+      const result = await chained.ok((num) => num * 2);
+      expect(Result.isOk(result)).toBe(true);
+      expect(result.data).toBe(42);
+    });
+
+    it('should await async callbacks in the chain', async () => {
+      const result = await Result.tryCatchAsync(async () => 'john', {
+        chain: true,
+      })
+        .ok(async (name) => name.toUpperCase())
+        .to(async (name) => `Hello, ${name}`)
+        .andThen(async (message) => Result.ok(message.length));
+
+      expect(result.data).toBe('Hello, JOHN'.length);
+    });
+
+    it('should short-circuit on failure', async () => {
+      const spy = vi.fn((num: number) => num * 2);
+      const error = new Error('Network error');
+      const result = await Result.resolve<number>(Promise.reject(error), {
+        chain: true,
+      }).ok(spy);
+
+      expect(Result.notOk(result)).toBe(true);
+      expect(result.error).toBe(error);
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should capture rejected async callbacks as failures', async () => {
+      const result = await AsyncResult.from(Result.ok(42)).ok(async () => {
+        throw new Error('Callback error');
+      });
+
+      expect(Result.notOk(result)).toBe(true);
+      expect(result.error?.message).toBe('Callback error');
+    });
+
+    it('should transform and recover errors', async () => {
+      const result = await AsyncResult.from(Promise.resolve(Result.not('miss')))
+        .not(async (err) => `cache_${err}`)
+        .orElse(async (err) => Result.ok(`recovered from ${err}`));
+
+      expect(Result.isOk(result)).toBe(true);
+      expect(result.data).toBe('recovered from cache_miss');
+    });
+
+    it('should extract values asynchronously', async () => {
+      const success = AsyncResult.from(Result.ok(42));
+      const failure = AsyncResult.from(
+        Result.not<Error, number>(new Error('Failed')),
+      );
+
+      expect(await success.value()).toBe(42);
+      expect(await failure.defaultValue(0)).toBe(0);
+      expect(await failure.or((err) => err.message)).toBe('Failed');
+      await expect(failure.throwIfNotOk()).rejects.toThrow('Failed');
+    });
+
+    it('should be matched like a promise', async () => {
+      const matched = await Result.match(AsyncResult.from(Result.ok('test')), {
+        ok: (data) => data.toUpperCase(),
+        not: () => '',
+      });
+
+      expect(matched).toBe('TEST');
+    });
+  });
+
+  describe('gen', () => {
+    const login = (name: string): AnyResult<{ name: string }, string> =>
+      name ? Result.ok({ name }) : Result.not('invalid_credentials');
+
+    const completeMfa = (code: string): AnyResult<string, string> =>
+      code === '123' ? Result.ok('token') : Result.not('invalid_code');
+
+    it('should unwrap successful results and return the final value', () => {
+      const result = Result.gen(function* () {
+        const user = yield* login('john');
+        const token = yield* completeMfa('123');
+        return `${user.name}:${token}`;
+      });
+
+      expect(Result.isOk(result)).toBe(true);
+      expect(result.data).toBe('john:token');
+    });
+
+    it('should stop at the first failure', () => {
+      const spy = vi.fn(completeMfa);
+      const result = Result.gen(function* () {
+        const user = yield* login('');
+        const token = yield* spy('123');
+        return `${user.name}:${token}`;
+      });
+
+      expect(Result.notOk(result)).toBe(true);
+      expect(result.error).toBe('invalid_credentials');
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should run finally blocks when stopping', () => {
+      const cleanup = vi.fn();
+      Result.gen(function* () {
+        try {
+          return yield* completeMfa('000');
+        } finally {
+          cleanup();
+        }
+      });
+
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('genAsync', () => {
+    const fetchUser = async (id: string): Promise<AnyResult<string, string>> =>
+      id ? Result.ok(`user-${id}`) : Result.not('not_found');
+
+    it('should unwrap sync results, promises and AsyncResults', async () => {
+      const result = await Result.genAsync(async function* () {
+        const first = yield* await fetchUser('1');
+        const second = yield* AsyncResult.from(fetchUser('2'));
+        const count = yield* Result.ok(2);
+        return `${first},${second} (${count})`;
+      });
+
+      expect(Result.isOk(result)).toBe(true);
+      expect(result.data).toBe('user-1,user-2 (2)');
+    });
+
+    it('should stop at the first failure', async () => {
+      const spy = vi.fn(fetchUser);
+      const result = await Result.genAsync(async function* () {
+        const first = yield* await fetchUser('');
+        return yield* await spy(first);
+      });
+
+      expect(Result.notOk(result)).toBe(true);
+      expect(result.error).toBe('not_found');
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should accept sync generators', async () => {
+      const result = await Result.genAsync(function* () {
+        return (yield* Result.ok(21)) * 2;
+      });
+
+      expect(result.data).toBe(42);
+    });
+  });
+
+  describe('all', () => {
+    it('should combine successful results in order', () => {
+      const result = Result.all([
+        Result.ok(1),
+        Result.ok('two'),
+        Result.ok(true),
+      ]);
+
+      expect(Result.isOk(result)).toBe(true);
+      expect(result.data).toEqual([1, 'two', true]);
+    });
+
+    it('should return the first failure', () => {
+      const first = new Error('First');
+      const result = Result.all([
+        Result.ok(1),
+        Result.not(first),
+        Result.not(new Error('Second')),
+      ]);
+
+      expect(Result.notOk(result)).toBe(true);
+      expect(result.error).toBe(first);
+    });
+
+    it('should return an AsyncResult when any item is a promise', async () => {
+      const combined = Result.all([
+        Result.ok(1),
+        Promise.resolve(Result.ok('two')),
+      ]);
+      expect(combined).toBeInstanceOf(AsyncResult);
+
+      const result = await combined;
+      expect(result.data).toEqual([1, 'two']);
+    });
+
+    it('should turn rejected promises into failures', async () => {
+      const error = new Error('Rejected');
+      const result = await Result.all([Result.ok(1), Promise.reject(error)]);
+
+      expect(Result.notOk(result)).toBe(true);
+      expect(result.error).toBe(error);
+    });
+  });
+
+  describe('allObject', () => {
+    it('should combine a record of results', () => {
+      const result = Result.allObject({
+        user: Result.ok({ name: 'John' }),
+        settings: Result.ok({ theme: 'dark' }),
+      });
+
+      expect(Result.isOk(result)).toBe(true);
+      expect(result.data).toEqual({
+        user: { name: 'John' },
+        settings: { theme: 'dark' },
+      });
+    });
+
+    it('should return the first failure', () => {
+      const result = Result.allObject({
+        user: Result.ok({ name: 'John' }),
+        settings: Result.not('settings_not_found'),
+      });
+
+      expect(Result.notOk(result)).toBe(true);
+      expect(result.error).toBe('settings_not_found');
+    });
+
+    it('should support promises of results', async () => {
+      const result = await Result.allObject({
+        user: Promise.resolve(Result.ok('John')),
+        age: Result.ok(30),
+      });
+
+      expect(result.data).toEqual({ user: 'John', age: 30 });
+    });
+  });
+
+  describe('any', () => {
+    it('should return the first successful result', () => {
+      const result = Result.any([
+        Result.not('memory_miss'),
+        Result.ok('from redis'),
+        Result.ok('from database'),
+      ]);
+
+      expect(Result.isOk(result)).toBe(true);
+      expect(result.data).toBe('from redis');
+    });
+
+    it('should return every error when all results failed', () => {
+      const result = Result.any([
+        Result.not('memory_miss'),
+        Result.not('redis_miss'),
+      ]);
+
+      expect(Result.notOk(result)).toBe(true);
+      expect(result.error).toEqual(['memory_miss', 'redis_miss']);
+    });
+
+    it('should resolve with the first success to settle', async () => {
+      const slow = new Promise<AnyResult<string, string>>((resolve) =>
+        setTimeout(() => resolve(Result.ok('slow')), 20),
+      );
+      const result = await Result.any([
+        slow,
+        Promise.resolve(Result.ok('fast')),
+      ]);
+
+      expect(result.data).toBe('fast');
+    });
+
+    it('should keep errors in input order for async failures', async () => {
+      const slow = new Promise<AnyResult<string, string>>((resolve) =>
+        setTimeout(() => resolve(Result.not('slow_error')), 20),
+      );
+      const result = await Result.any([slow, Result.not('fast_error')]);
+
+      expect(result.error).toEqual(['slow_error', 'fast_error']);
+    });
+  });
+
+  describe('validate', () => {
+    type ValidationError = { field: string; message: string };
+
+    const required = (
+      field: string,
+      value: string,
+    ): AnyResult<string, ValidationError> =>
+      value
+        ? Result.ok(value)
+        : Result.not({ field, message: `${field} is required` });
+
+    it('should return every value when all validations pass', () => {
+      const result = Result.validate({
+        username: required('username', 'john'),
+        email: required('email', 'john@example.com'),
+      });
+
+      expect(Result.isOk(result)).toBe(true);
+      expect(result.data).toEqual({
+        username: 'john',
+        email: 'john@example.com',
+      });
+    });
+
+    it('should accumulate every error', () => {
+      const result = Result.validate({
+        username: required('username', ''),
+        email: required('email', ''),
+        age: Result.ok(30),
+      });
+
+      expect(Result.notOk(result)).toBe(true);
+      expect(result.error).toEqual([
+        { field: 'username', message: 'username is required' },
+        { field: 'email', message: 'email is required' },
+      ]);
+    });
+
+    it('should accept tuples', () => {
+      const result = Result.validate([
+        required('username', 'john'),
+        Result.ok(30),
+      ]);
+
+      expect(result.data).toEqual(['john', 30]);
+    });
+
+    it('should await promises of results', async () => {
+      const result = await Result.validate({
+        username: Promise.resolve(required('username', '')),
+        email: required('email', ''),
+      });
+
+      expect(Result.notOk(result)).toBe(true);
+      expect(result.error).toHaveLength(2);
+    });
+
+    it('should key errors by field with validateFields', () => {
+      const result = Result.validateFields({
+        username: required('username', 'john'),
+        email: required('email', ''),
+      });
+
+      expect(Result.notOk(result)).toBe(true);
+      expect(result.error).toEqual({
+        email: { field: 'email', message: 'email is required' },
+      });
+    });
+  });
+
+  describe('from', () => {
+    it('should create success result when condition is true', () => {
+      const result = Result.from(42, true, new Error('Not used'));
+
+      expect(Result.isOk(result)).toBe(true);
+      expect(result.data).toBe(42);
+    });
+
+    it('should create failure result when condition is false', () => {
+      const error = new Error('Value must be positive');
+      const result = Result.from(-10, false, error);
+
+      expect(Result.notOk(result)).toBe(true);
+      expect(result.error).toBe(error);
+    });
+
+    it('should evaluate function condition with value', () => {
+      const positive = Result.from(
+        42,
+        (value) => value > 0,
+        new Error('Must be positive'),
+      );
+      const negative = Result.from(
+        -10,
+        (value) => value > 0,
+        new Error('Must be positive'),
+      );
+
+      expect(Result.isOk(positive)).toBe(true);
+      expect(Result.notOk(negative)).toBe(true);
+    });
+
+    it('should accept function for value', () => {
+      const getValue = () => 42;
+      const result = Result.from(getValue, true, new Error('Not used'));
+
+      expect(Result.isOk(result)).toBe(true);
+      expect(result.data).toBe(42);
+    });
+
+    it('should accept function for error', () => {
+      const getError = () => new Error('Generated error');
+      const result = Result.from(10, false, getError);
+
+      expect(Result.notOk(result)).toBe(true);
+      expect(result.error).toBeInstanceOf(Error);
+      if (result.error) {
+        expect(result.error.message).toBe('Generated error');
+      }
+    });
+  });
+
+  describe('fromNullable', () => {
+    it('should fail only for null and undefined', () => {
+      expect(Result.fromNullable(0, 'Missing').data).toBe(0);
+      expect(Result.fromNullable('', 'Missing').data).toBe('');
+      expect(Result.fromNullable(null, 'Missing').error).toBe('Missing');
+      expect(Result.fromNullable(undefined, () => 'Lazy').error).toBe('Lazy');
+    });
+  });
+
+  describe('fromPredicate', () => {
+    const isUser = (value: unknown): value is { id: number } =>
+      typeof value === 'object' && value !== null && 'id' in value;
+
+    it('should narrow the value with a type guard', () => {
+      const result = Result.fromPredicate(
+        { id: 1 } as unknown,
+        isUser,
+        new Error('Invalid user'),
+      );
+
+      expect(Result.isOk(result) && result.data.id).toBe(1);
+    });
+
+    it('should build the error from the value', () => {
+      const result = Result.fromPredicate(
+        -1,
+        (value) => value > 0,
+        (value) => `${value} must be positive`,
+      );
+
+      expect(result.error).toBe('-1 must be positive');
+    });
+  });
+
+  describe('fromAsync', () => {
+    const taken = ['admin'];
+    const isAvailable = async (username: string) => !taken.includes(username);
+
+    it('should resolve the value and the async condition', async () => {
+      const available = await Result.fromAsync(
+        Promise.resolve('ada'),
+        isAvailable,
+        'Taken',
+      );
+      const unavailable = await Result.fromAsync(
+        'admin',
+        isAvailable,
+        (username) => `${username} is already taken`,
+      );
+
+      expect(available.data).toBe('ada');
+      expect(unavailable.error).toBe('admin is already taken');
+    });
+
+    it('should capture rejections', async () => {
+      const result = await Result.fromAsync(
+        'ada',
+        () => Promise.reject(new Error('Offline')),
+        'Taken',
+      );
+
+      expect(result.error).toEqual(new Error('Offline'));
+    });
+  });
+
+  describe('fromThrowable', () => {
+    it('should keep the parameters and capture errors', () => {
+      const safeParse = Result.fromThrowable(
+        (text: string) => JSON.parse(text) as { id: number },
+        toError,
+      );
+
+      expect(safeParse('{"id":1}').data).toEqual({ id: 1 });
+      expect(safeParse('{')).toHaveProperty('kind', Result.NOT);
+    });
+
+    it('should accept capture options', () => {
+      const divide = Result.fromThrowable(
+        (a: number, b: number) => {
+          if (b === 0) throw new RangeError('Division by zero');
+          return a / b;
+        },
+        { catch: [RangeError] },
+      );
+
+      expect(divide(6, 3).data).toBe(2);
+      expect(divide(1, 0).error).toBeInstanceOf(RangeError);
+    });
+  });
+
+  describe('wrap', () => {
+    class Client {
+      #token = 'secret';
+      public name = 'client';
+
+      public token() {
+        return this.#token;
+      }
+
+      public parse(text: string): { id: number } {
+        return JSON.parse(text);
+      }
+
+      public async fetch(id: number): Promise<{ id: number }> {
+        if (id < 0) throw new RangeError('Invalid id');
+        return { id };
+      }
+    }
+
+    it('should wrap sync and async functions', async () => {
+      const parse = Result.wrap((text: string) => JSON.parse(text), toError);
+      const fetch = Result.wrapAsync(async (id: number) => {
+        if (id < 0) throw new RangeError('Invalid id');
+        return { id };
+      });
+
+      expect(parse('1').data).toBe(1);
+      expect(parse('{').error).toBeInstanceOf(SyntaxError);
+      expect((await fetch(1)).data).toEqual({ id: 1 });
+      expect((await fetch(-1)).error).toBeInstanceOf(RangeError);
+    });
+
+    it('should preserve this', async () => {
+      const client = new Client();
+      const token = Result.wrap(client.token);
+      const fetch = Result.wrapAsync(client.fetch);
+
+      expect(token.call(client).data).toBe('secret');
+      expect((await fetch.call(client, 2)).data).toEqual({ id: 2 });
+    });
+
+    it('should capture synchronous exceptions of async functions', async () => {
+      const fetch = Result.wrapAsync((): Promise<number> => {
+        throw new Error('Not a promise yet');
+      });
+
+      expect((await fetch()).error).toEqual(new Error('Not a promise yet'));
+    });
+
+    it('should wrap every method of an object', async () => {
+      const client = Result.wrapObject(new Client(), (error) => String(error));
+
+      expect(client.name).toBe('client');
+      expect(client.token().data).toBe('secret');
+      expect(client.parse('{').error).toContain('SyntaxError');
+      expect((await client.fetch(3)).data).toEqual({ id: 3 });
+      expect((await client.fetch(-1)).error).toBe('RangeError: Invalid id');
+    });
+  });
+
+  describe('decorators', () => {
+    class AuthError {
+      constructor(public reason: string) {}
+    }
+
+    const toAuthError = (error: unknown) => new AuthError(String(error));
+
+    class AuthenticationService {
+      public attempts = 0;
+
+      @Result.capture({ mapError: toAuthError })
+      public login(password: string): AnyResult<string, AuthError> {
+        this.attempts++;
+        if (!password) throw 'Missing password';
+        return Result.ok(`session-${password}`);
+      }
+
+      @Result.captureAsync({ mapError: toAuthError })
+      public async refresh(
+        token: string,
+      ): Promise<AnyResult<string, AuthError>> {
+        if (token === 'expired') throw 'Token expired';
+        return Result.ok(`${token}-refreshed`);
+      }
+
+      @Result.capture({ catch: [AuthError] })
+      public logout(): AnyResult<void, AuthError> {
+        throw new TypeError('session is undefined');
+      }
+    }
+
+    it('should capture exceptions of decorated methods', async () => {
+      const service = new AuthenticationService();
+
+      expect(service.login('123').data).toBe('session-123');
+      expect(service.login('').error).toEqual(
+        new AuthError('Missing password'),
+      );
+      expect(service.attempts).toBe(2);
+      expect((await service.refresh('abc')).data).toBe('abc-refreshed');
+      expect((await service.refresh('expired')).error).toEqual(
+        new AuthError('Token expired'),
+      );
+      expect(() => service.logout()).toThrow(TypeError);
+    });
+
+    it('should capture every method of a decorated class', async () => {
+      @Result.captureAll({ mapError: (error) => `Failed: ${error}` })
+      class FileProcessor {
+        public get extension() {
+          return '.txt';
+        }
+
+        public read(path: string): AnyResult<string, string> {
+          if (!path.endsWith(this.extension)) throw 'Unsupported file';
+          return Result.ok('content');
+        }
+
+        public async upload(path: string): Promise<AnyResult<string, string>> {
+          if (!path) throw 'Missing path';
+          return Result.ok(path);
+        }
+      }
+
+      const processor = new FileProcessor();
+
+      expect(processor.extension).toBe('.txt');
+      expect(processor.read('a.txt').data).toBe('content');
+      expect(processor.read('a.png').error).toBe('Failed: Unsupported file');
+      expect((await processor.upload('')).error).toBe('Failed: Missing path');
+    });
+  });
+
+  describe('retry', () => {
+    const flaky = (failures: number, error: unknown = 'Unavailable') => {
+      let calls = 0;
+      return vi.fn(async () => {
+        calls++;
+        return calls > failures
+          ? Result.ok(calls)
+          : Result.not<unknown, number>(error);
+      });
+    };
+
+    it('should retry until the operation succeeds', async () => {
+      const operation = flaky(2);
+      const sleep = vi.fn(async () => {});
+
+      const result = await Result.retry(operation, { sleep });
+
+      expect(result.data).toBe(3);
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(sleep.mock.calls).toEqual([[100], [200]]);
+    });
+
+    it('should return a RetryError with the attempt history', async () => {
+      let now = 0;
+      const onRetry = vi.fn();
+
+      const result = await Result.retry(flaky(5), {
+        attempts: 3,
+        delay: 10,
+        backoff: 'linear',
+        sleep: async (ms) => {
+          now += ms;
+        },
+        clock: () => now,
+        onRetry,
+      });
+
+      expect(result.error).toBeInstanceOf(RetryError);
+      expect(result.error?.message).toBe('Failed after 3 attempt(s)');
+      expect(result.error?.cause).toBe('Unavailable');
+      expect(result.error?.history).toEqual([
+        { attempt: 1, error: 'Unavailable', timestamp: 0, delay: 10 },
+        { attempt: 2, error: 'Unavailable', timestamp: 10, delay: 20 },
+        { attempt: 3, error: 'Unavailable', timestamp: 30, delay: 0 },
+      ]);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop when the error should not be retried', async () => {
+      const operation = flaky(5, { retryable: false });
+
+      const result = await Result.retry(operation, {
+        shouldRetry: (error) => (error as { retryable: boolean }).retryable,
+        sleep: async () => {},
+      });
+
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(result.error?.history).toHaveLength(1);
+    });
+
+    it('should retry rejections and thrown errors', async () => {
+      const operation = vi
+        .fn<(attempt: number) => Promise<AnyResult<string, Error>>>()
+        .mockRejectedValueOnce(new Error('Timeout'))
+        .mockImplementationOnce(() => {
+          throw new Error('Crashed');
+        })
+        .mockResolvedValueOnce(Result.ok('done'));
+
+      const result = await Result.retry(operation, { sleep: async () => {} });
+
+      expect(result.data).toBe('done');
+      expect(operation.mock.calls).toEqual([[1], [2], [3]]);
+    });
+
+    it('should reject with exceptions that a per-call catch list rethrows', async () => {
+      const bug = new TypeError('user is undefined');
+      const operation = vi.fn(() =>
+        Result.resolve(Promise.reject(bug), { catch: [RangeError] }),
+      );
+
+      await expect(
+        Result.retry(operation, { sleep: async () => {} }),
+      ).rejects.toBe(bug);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cap the delay and apply jitter', async () => {
+      const sleep = vi.fn(async () => {});
+
+      await Result.retry(flaky(4), {
+        attempts: 5,
+        delay: 100,
+        maxDelay: 300,
+        jitter: true,
+        random: () => 0.5,
+        sleep,
+      });
+
+      expect(sleep.mock.calls).toEqual([[50], [100], [150], [150]]);
+    });
+
+    it('should work with fake timers', async () => {
+      vi.useFakeTimers();
+
+      try {
+        const pending = Result.retry(flaky(1), { delay: 1_000 });
+        await vi.advanceTimersByTimeAsync(1_000);
+
+        expect((await pending).data).toBe(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('singleFlight', () => {
+    const deferred = () => {
+      let resolve!: (result: AnyResult<string, string>) => void;
+      let reject!: (reason: unknown) => void;
+      const promise = new Promise<AnyResult<string, string>>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      return { promise, resolve, reject };
+    };
+
+    it('should share the in-flight call between callers with the same key', async () => {
+      const call = deferred();
+      const operation = vi.fn((_id: string, _locale: string) => call.promise);
+      const getUser = Result.singleFlight(operation, (id) => id);
+
+      const first = getUser('1', 'en');
+      const second = getUser('1', 'pt');
+      call.resolve(Result.ok('Alice'));
+
+      expect(first).toBe(second);
+      expect((await first).data).toBe('Alice');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not share calls with different keys', async () => {
+      const operation = vi.fn(async (id: string) => Result.ok(id));
+      const getUser = Result.singleFlight(operation);
+
+      await Promise.all([getUser('1'), getUser('2')]);
+
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should release the key once the call settles', async () => {
+      const operation = vi.fn(async (id: string) =>
+        Result.not<string, string>(`${id} not found`),
+      );
+      const getUser = Result.singleFlight(operation);
+
+      expect((await getUser('1')).error).toBe('1 not found');
+      await getUser('1');
+
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share and release rejections', async () => {
+      const call = deferred();
+      const operation = vi
+        .fn((_id: string) => call.promise)
+        .mockImplementationOnce(() => call.promise)
+        .mockImplementationOnce(async () => Result.ok('Bob'));
+      const getUser = Result.singleFlight(operation);
+
+      const pending = Promise.allSettled([getUser('1'), getUser('1')]);
+      call.reject(new Error('Network error'));
+
+      expect((await pending).map(({ status }) => status)).toEqual([
+        'rejected',
+        'rejected',
+      ]);
+      expect((await getUser('1')).data).toBe('Bob');
+    });
+
+    it('should start a new call after forget', async () => {
+      const operation = vi.fn(async (id: string) => Result.ok(id));
+      const getUser = Result.singleFlight(operation, (id) => id);
+
+      const first = getUser('1');
+      getUser.forget('1');
+      const second = getUser('1');
+
+      expect(first).not.toBe(second);
+      await Promise.all([first, second]);
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('cached', () => {
+    const setup = (
+      options: Partial<Parameters<typeof Result.cached>[1]> = {},
+    ) => {
+      const { clock, advance } = manualClock();
+      let version = 0;
+      const operation = vi.fn(async (id: string) =>
+        id === 'missing'
+          ? Result.not<string, string>('Not found')
+          : Result.ok(`${id}@${++version}`),
+      );
+      const cached = Result.cached(operation, { ttl: 100, clock, ...options });
+
+      return { cached, operation, advance };
+    };
+
+    it('should return the cached result until it expires', async () => {
+      const { cached, operation, advance } = setup();
+
+      expect((await cached('a')).data).toBe('a@1');
+      advance(99);
+      expect((await cached('a')).data).toBe('a@1');
+      advance(1);
+      expect((await cached('a')).data).toBe('a@2');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cache each key separately', async () => {
+      const { cached, operation } = setup();
+
+      await cached('a');
+      await cached('b');
+      await cached('a');
+
+      expect(operation.mock.calls).toEqual([['a'], ['b']]);
+    });
+
+    it('should not cache failures by default', async () => {
+      const { cached, operation } = setup();
+
+      await cached('missing');
+      expect((await cached('missing')).error).toBe('Not found');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cache failures for their own ttl', async () => {
+      const { cached, operation, advance } = setup({
+        cacheErrors: { ttl: 10 },
+      });
+
+      await cached('missing');
+      await cached('missing');
+      expect(operation).toHaveBeenCalledTimes(1);
+
+      advance(10);
+      await cached('missing');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return stale data while refreshing it once', async () => {
+      const { cached, operation, advance } = setup({
+        staleWhileRevalidate: 50,
+      });
+
+      await cached('a');
+      advance(120);
+
+      const [first, second] = await Promise.all([cached('a'), cached('a')]);
+      expect([first.data, second.data]).toEqual(['a@1', 'a@1']);
+      expect(operation).toHaveBeenCalledTimes(2);
+
+      await vi.waitFor(async () =>
+        expect((await cached('a')).data).toBe('a@2'),
+      );
+    });
+
+    it('should call the function once the stale window is over', async () => {
+      const { cached, advance } = setup({ staleWhileRevalidate: 50 });
+
+      await cached('a');
+      advance(150);
+
+      expect((await cached('a')).data).toBe('a@2');
+    });
+
+    it('should use the key function and invalidate entries', async () => {
+      const operation = vi.fn(async (id: string, locale: string) =>
+        Result.ok(`${id}:${locale}`),
+      );
+      const cached = Result.cached(operation, { ttl: 100, key: (id) => id });
+
+      await cached('a', 'en');
+      expect((await cached('a', 'pt')).data).toBe('a:en');
+
+      await cached.invalidate('a');
+      expect((await cached('a', 'pt')).data).toBe('a:pt');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use a custom store', async () => {
+      const entries = new Map<string, any>();
+      const store = {
+        get: async (key: string) => entries.get(key),
+        set: async (key: string, value: unknown) => {
+          entries.set(key, value);
+        },
+        delete: async (key: string) => {
+          entries.delete(key);
+        },
+      };
+      const { cached } = setup({ store });
+
+      await cached('a');
+
+      expect([...entries.keys()]).toEqual(['["a"]']);
+      expect(entries.get('["a"]').result.data).toBe('a@1');
+    });
+  });
+
+  describe('LruStore', () => {
+    it('should evict the least recently used entry', () => {
+      const store = new LruStore<number>(2);
+
+      store.set('a', 1);
+      store.set('b', 2);
+      store.get('a');
+      store.set('c', 3);
+
+      expect(store.get('a')).toBe(1);
+      expect(store.get('b')).toBeUndefined();
+      expect(store.get('c')).toBe(3);
+      expect(store.size).toBe(2);
+    });
+  });
+
+  describe('circuitBreaker', () => {
+    const setup = (
+      options: Parameters<typeof Result.circuitBreaker>[1] = {},
+    ) => {
+      const { clock, advance } = manualClock();
+      const onStateChange = vi.fn();
+      const operation = vi.fn(async (input: string) =>
+        input === 'fail'
+          ? Result.not<Error, string>(new Error('Unavailable'))
+          : Result.ok(input),
+      );
+      const breaker = Result.circuitBreaker(operation, {
+        failureThreshold: 2,
+        resetTimeout: 1_000,
+        clock,
+        onStateChange,
+        ...options,
+      });
+
+      return { breaker, operation, onStateChange, advance };
+    };
+
+    it('should open after consecutive failures', async () => {
+      const { breaker, operation, onStateChange } = setup();
+
+      await breaker('fail');
+      expect(breaker.state()).toBe('closed');
+      await breaker('fail');
+      expect(breaker.state()).toBe('open');
+
+      const result = await breaker('ok');
+
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(result.error).toBeInstanceOf(CircuitOpenError);
+      expect(CircuitOpenError.is(result.error) && result.error.retryAt).toBe(
+        1_000,
+      );
+      expect(onStateChange).toHaveBeenCalledWith({
+        key: 'default',
+        from: 'closed',
+        to: 'open',
+        timestamp: 0,
+      });
+    });
+
+    it('should reset the failure count after a success', async () => {
+      const { breaker } = setup();
+
+      await breaker('fail');
+      await breaker('ok');
+      await breaker('fail');
+
+      expect(breaker.state()).toBe('closed');
+    });
+
+    it('should close after a successful trial call', async () => {
+      const { breaker, advance, onStateChange } = setup();
+
+      await breaker('fail');
+      await breaker('fail');
+      advance(1_000);
+
+      expect(breaker.state()).toBe('half-open');
+      expect((await breaker('ok')).data).toBe('ok');
+      expect(breaker.state()).toBe('closed');
+      expect(onStateChange.mock.calls.map(([change]) => change.to)).toEqual([
+        'open',
+        'half-open',
+        'closed',
+      ]);
+    });
+
+    it('should reopen after a failed trial call', async () => {
+      const { breaker, advance } = setup();
+
+      await breaker('fail');
+      await breaker('fail');
+      advance(1_000);
+      await breaker('fail');
+
+      expect(breaker.state()).toBe('open');
+      advance(999);
+      expect(breaker.state()).toBe('open');
+    });
+
+    it('should reopen when a trial call rejects with an exception that is not captured', async () => {
+      Result.configure({
+        captureExceptions: (error) => !(error instanceof TypeError),
+      });
+
+      try {
+        const bug = new TypeError('response is undefined');
+        const { clock, advance } = manualClock();
+        const breaker = Result.circuitBreaker(
+          async (input: string) => {
+            if (input === 'bug') throw bug;
+            return input === 'fail'
+              ? Result.not<Error, string>(new Error('Unavailable'))
+              : Result.ok(input);
+          },
+          { failureThreshold: 1, resetTimeout: 1_000, clock },
+        );
+
+        await breaker('fail');
+        advance(1_000);
+
+        await expect(breaker('bug')).rejects.toBe(bug);
+        expect(breaker.state()).toBe('open');
+
+        advance(1_000);
+        expect((await breaker('ok')).data).toBe('ok');
+        expect(breaker.state()).toBe('closed');
+      } finally {
+        Result.configure({ captureExceptions: undefined });
+      }
+    });
+
+    it('should limit the concurrent trial calls', async () => {
+      const { breaker, operation, advance } = setup({ halfOpenMaxCalls: 1 });
+
+      await breaker('fail');
+      await breaker('fail');
+      advance(1_000);
+
+      const [trial, rejected] = await Promise.all([
+        breaker('ok'),
+        breaker('ok'),
+      ]);
+
+      expect(trial.data).toBe('ok');
+      expect(rejected.error).toBeInstanceOf(CircuitOpenError);
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should only count the selected failures', async () => {
+      const { breaker } = setup({ isFailure: () => false });
+
+      await breaker('fail');
+      await breaker('fail');
+
+      expect(breaker.state()).toBe('closed');
+    });
+
+    it('should keep a circuit per key', async () => {
+      const { breaker } = setup({ key: (input) => String(input) });
+
+      await breaker('fail');
+      await breaker('fail');
+
+      expect(breaker.state('fail')).toBe('open');
+      expect(breaker.state('ok')).toBe('closed');
+      expect((await breaker('ok')).data).toBe('ok');
+    });
+
+    it('should accept a key that uses some of the arguments', async () => {
+      const breaker = Result.circuitBreaker(
+        async (host: string, path: string) => Result.ok(`${host}${path}`),
+        { key: (host) => host },
+      );
+
+      expect((await breaker('api', '/users')).data).toBe('api/users');
+      expect(breaker.state('api')).toBe('closed');
+    });
+
+    it('should count rejections as failures', async () => {
+      const breaker = Result.circuitBreaker(
+        async (): Promise<AnyResult<string, Error>> => {
+          throw new Error('Crashed');
+        },
+        { failureThreshold: 1 },
+      );
+
+      expect((await breaker()).error?.message).toBe('Crashed');
+      expect(breaker.state()).toBe('open');
+    });
+
+    it('should close the circuits on reset', async () => {
+      const { breaker } = setup();
+
+      await breaker('fail');
+      await breaker('fail');
+      breaker.reset();
+
+      expect(breaker.state()).toBe('closed');
+    });
+  });
+
+  describe('instance methods', () => {
+    describe('to', () => {
+      it('should transform successful result', () => {
+        const result = Result.ok(42);
+        const transformed = result.to((num) => num * 2);
+
+        expect(Result.isOk(transformed)).toBe(true);
+        expect(transformed.data).toBe(84);
+      });
+
+      it('should pass through error for failure result', () => {
+        const error = new Error('Original error');
+        const result = Result.not(error);
+        const transformed = result.to((num) => (num as any) * 2);
+
+        expect(Result.notOk(transformed)).toBe(true);
+        expect(transformed.error).toBe(error);
+      });
+    });
+
+    describe('value', () => {
+      it('should return the value directly', () => {
+        const result = Result.ok(42);
+        const value = result.value();
+
+        expect(value).toBe(42);
+      });
+
+      it('should transform the value with a mutator', () => {
+        const result = Result.ok(42);
+        const value = result.value((num) => num * 2);
+
+        expect(value).toBe(84);
+      });
+
+      it('should return null for failure result', () => {
+        const result = Result.not(new Error('Test error'));
+        const value = result.value();
+
+        expect(value).toBeNull();
+      });
+    });
+
+    describe('defaultValue', () => {
+      it('should return the original value for success result', () => {
+        const result = Result.ok(42);
+        const value = result.defaultValue(0);
+
+        expect(value).toBe(42);
+      });
+
+      it('should return the default value for failure result', () => {
+        const result = Result.not(new Error('Test error'));
+        const value = result.defaultValue(0);
 
         expect(value).toBe(0);
       });
@@ -468,6 +2438,83 @@ describe('Result', () => {
         expect(result.error).toBe('Modified: Start error');
       });
     });
+
+    describe('andThen method', () => {
+      const parsePositive = (value: number): AnyResult<number, string> =>
+        value > 0 ? Result.ok(value) : Result.not('not_positive');
+
+      it('should flatten the result returned by the callback', () => {
+        const result = Result.ok(42).andThen((num) => parsePositive(num));
+
+        expect(Result.isOk(result)).toBe(true);
+        expect(result.data).toBe(42);
+      });
+
+      it('should short-circuit when the callback returns a failure', () => {
+        const spy = vi.fn((num: number) => Result.ok(num * 2));
+        const result = Result.ok(-1)
+          .andThen((num) => parsePositive(num))
+          .andThen(spy);
+
+        expect(Result.notOk(result)).toBe(true);
+        expect(result.error).toBe('not_positive');
+        expect(spy).not.toHaveBeenCalled();
+      });
+
+      it('should pass through failure result', () => {
+        const error = new Error('Test error');
+        const result = Result.not<Error, number>(error).andThen(parsePositive);
+
+        expect(Result.notOk(result)).toBe(true);
+        expect(result.error).toBe(error);
+      });
+
+      it('should handle thrown errors in callback', () => {
+        const result = Result.ok(42).andThen(() => {
+          throw new Error('Callback error');
+        });
+
+        expect(Result.notOk(result)).toBe(true);
+        expect(result.error).toBeInstanceOf(Error);
+      });
+
+      it('should be aliased by flatMap', () => {
+        const result = Result.ok(21).flatMap((num) => Result.ok(num * 2));
+
+        expect(result.data).toBe(42);
+      });
+    });
+
+    describe('orElse method', () => {
+      it('should recover a failure with the returned result', () => {
+        const result = Result.not<string, number>('cache_miss').orElse(() =>
+          Result.ok(42),
+        );
+
+        expect(Result.isOk(result)).toBe(true);
+        expect(result.data).toBe(42);
+      });
+
+      it('should replace the error with the returned failure', () => {
+        const result = Result.not('cache_miss').orElse((err) =>
+          Result.not({ code: 'unavailable', cause: err }),
+        );
+
+        expect(Result.notOk(result)).toBe(true);
+        expect(result.error).toEqual({
+          code: 'unavailable',
+          cause: 'cache_miss',
+        });
+      });
+
+      it('should pass through successful result', () => {
+        const spy = vi.fn(() => Result.ok(0));
+        const result = Result.ok(42).orElse(spy);
+
+        expect(result.data).toBe(42);
+        expect(spy).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('throwIfNotOk', () => {
@@ -481,12 +2528,71 @@ describe('Result', () => {
       const result = Result.not(error);
       expect(() => result.throwIfNotOk()).toThrow(error);
     });
+
+    it('should narrow the result to Ok', () => {
+      const result: AnyResult<{ name: string }, Error> = Result.ok({
+        name: 'Ada',
+      });
+
+      result.throwIfNotOk();
+      expect(result.data.name).toBe('Ada');
+    });
+  });
+
+  describe('unwrap', () => {
+    it('should return the successful value', () => {
+      expect(Result.ok(42).unwrap()).toBe(42);
+      expect(Result.ok(42).expect('Answer missing')).toBe(42);
+    });
+
+    it('should throw an UnwrapError with the error as cause', () => {
+      const error = new Error('Not found');
+
+      expect(() => Result.not(error).unwrap()).toThrow(UnwrapError);
+      try {
+        Result.not(error).expect('User must exist');
+      } catch (thrown) {
+        expect(thrown).toBeInstanceOf(UnwrapError);
+        expect((thrown as Error).message).toBe('User must exist');
+        expect((thrown as { cause?: unknown }).cause).toBe(error);
+      }
+    });
+
+    it('should return the error with unwrapErr', () => {
+      expect(Result.not('Invalid').unwrapErr()).toBe('Invalid');
+      expect(() => Result.ok(1).unwrapErr()).toThrow(
+        'Called unwrapErr() on a successful result',
+      );
+    });
+
+    it('should fall back with unwrapOr and unwrapOrElse', () => {
+      const fallback = () => 'fallback';
+      const failure = Result.not<string, number>('Invalid');
+
+      expect(Result.ok(1).unwrapOr(0)).toBe(1);
+      expect(failure.unwrapOr(fallback)).toBe(fallback);
+      expect(failure.unwrapOrElse((error) => error.length)).toBe(7);
+    });
+
+    it('should unwrap async results', async () => {
+      const failure = AsyncResult.from(Result.not(new Error('Offline')));
+
+      await expect(AsyncResult.from(Result.ok(1)).unwrap()).resolves.toBe(1);
+      await expect(failure.expect('API must be online')).rejects.toThrow(
+        'API must be online',
+      );
+      await expect(failure.unwrapErr()).resolves.toEqual(new Error('Offline'));
+      await expect(failure.unwrapOr(0)).resolves.toBe(0);
+      await expect(
+        failure.unwrapOrElse(async (error) => error.message),
+      ).resolves.toBe('Offline');
+    });
   });
 
   describe('lazy evaluation', () => {
     it('should not evaluate data function until accessed', () => {
       const spy = vi.fn().mockReturnValue(42);
-      const result = Result.ok(spy);
+      const result = Result.lazy(spy);
 
       expect(spy).not.toHaveBeenCalled();
       expect(result.data).toBe(42);
@@ -499,7 +2605,7 @@ describe('Result', () => {
 
     it('should not evaluate error function until accessed', () => {
       const spy = vi.fn().mockReturnValue(new Error('Lazy error'));
-      const result = Result.not(spy);
+      const result = Result.lazyNot(spy);
 
       expect(spy).not.toHaveBeenCalled();
       expect(result.error).toBeInstanceOf(Error);
@@ -0,0 +1,298 @@
+import Result, {
+  type AnyResult,
+  type ErrorNormalizer,
+  type ResultData,
+  type ResultError,
+} from './result.js';
+
+// The operators only rely on the `Result` guards and constructors, never on
+// instance methods, so a bundler can drop the ones that are not imported.
+// The `Result` class itself is always kept, since every result is an instance of it.
+
+/**
+ * Passes a value through a sequence of functions, from left to right.
+ * @param value The initial value, usually a result.
+ * @returns The value returned by the last function.
+ * @example
+ * const name = pipe(
+ *   findUser(id),
+ *   map((user) => user.name),
+ *   mapErr((error) => error.message),
+ *   defaultValue('anonymous'),
+ * ); // string
+ */
+export function pipe<A>(value: A): A;
+export function pipe<A, B>(value: A, ab: (a: A) => B): B;
+export function pipe<A, B, C>(value: A, ab: (a: A) => B, bc: (b: B) => C): C;
+export function pipe<A, B, C, D>(
+  value: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+): D;
+export function pipe<A, B, C, D, E>(
+  value: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+): E;
+export function pipe<A, B, C, D, E, F>(
+  value: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+): F;
+export function pipe<A, B, C, D, E, F, G>(
+  value: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+): G;
+export function pipe<A, B, C, D, E, F, G, H>(
+  value: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+): H;
+export function pipe<A, B, C, D, E, F, G, H, I>(
+  value: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+): I;
+export function pipe(
+  value: unknown,
+  ...operators: ((value: unknown) => unknown)[]
+): unknown {
+  return operators.reduce((current, operator) => operator(current), value);
+}
+
+/**
+ * Composes functions from left to right into a reusable pipeline.
+ * The first function may take any parameters, the others receive the previous return value.
+ * @returns A function that runs the whole pipeline.
+ * @example
+ * const parseAge = flow(
+ *   (input: string) => Result.tryCatch(() => Number.parseInt(input, 10)),
+ *   andThen(validateAge), // (age: number) => AnyResult<number, AgeError>
+ * );
+ *
+ * parseAge('42'); // AnyResult<number, Error | AgeError>
+ */
+export function flow<TArgs extends unknown[], B>(
+  ab: (...args: TArgs) => B,
+): (...args: TArgs) => B;
+export function flow<TArgs extends unknown[], B, C>(
+  ab: (...args: TArgs) => B,
+  bc: (b: B) => C,
+): (...args: TArgs) => C;
+export function flow<TArgs extends unknown[], B, C, D>(
+  ab: (...args: TArgs) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+): (...args: TArgs) => D;
+export function flow<TArgs extends unknown[], B, C, D, E>(
+  ab: (...args: TArgs) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+): (...args: TArgs) => E;
+export function flow<TArgs extends unknown[], B, C, D, E, F>(
+  ab: (...args: TArgs) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+): (...args: TArgs) => F;
+export function flow<TArgs extends unknown[], B, C, D, E, F, G>(
+  ab: (...args: TArgs) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+): (...args: TArgs) => G;
+export function flow<TArgs extends unknown[], B, C, D, E, F, G, H>(
+  ab: (...args: TArgs) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+): (...args: TArgs) => H;
+export function flow(
+  first: (...args: unknown[]) => unknown,
+  ...operators: ((value: unknown) => unknown)[]
+): (...args: unknown[]) => unknown {
+  return (...args) =>
+    operators.reduce((current, operator) => operator(current), first(...args));
+}
+
+/**
+ * Transforms the successful value.
+ * @see Result.to
+ */
+export function map<T, TReturn>(
+  mutator: (data: T) => TReturn,
+): <E>(result: AnyResult<T, E>) => AnyResult<TReturn, E> {
+  return <E>(result: AnyResult<T, E>) =>
+    Result.isOk(result)
+      ? Result.ok<TReturn, E>(mutator(result.data))
+      : (result as unknown as AnyResult<TReturn, E>);
+}
+
+/**
+ * Alias of `map()`.
+ */
+export const to = map;
+
+/**
+ * Transforms the error value.
+ * @example
+ * pipe(findUser(id), mapErr((error) => error.message)); // AnyResult<User, string>
+ */
+export function mapErr<E, TReturn>(
+  mutator: (error: E) => TReturn,
+): <T>(result: AnyResult<T, E>) => AnyResult<T, TReturn> {
+  return <T>(result: AnyResult<T, E>) =>
+    Result.notOk(result)
+      ? Result.not<TReturn, T>(mutator(result.error))
+      : (result as unknown as AnyResult<T, TReturn>);
+}
+
+/**
+ * Transforms the successful value, capturing exceptions and keeping the value when the callback returns nothing.
+ * @see Result.ok
+ */
+export function ok<T, TError = Error>(
+  callback: (data: T) => void | undefined,
+  normalizeError?: ErrorNormalizer<TError>,
+): <E>(result: AnyResult<T, E>) => AnyResult<T, E | TError>;
+export function ok<T, TReturn, TError = Error>(
+  callback: (data: T) => TReturn,
+  normalizeError?: ErrorNormalizer<TError>,
+): <E>(result: AnyResult<T, E>) => AnyResult<TReturn, E | TError>;
+export function ok<T, TReturn, TError = Error>(
+  callback: (data: T) => TReturn,
+  normalizeError?: ErrorNormalizer<TError>,
+): <E>(result: AnyResult<T, E>) => AnyResult<TReturn, E | TError> {
+  return <E>(result: AnyResult<T, E>) => {
+    if (!Result.isOk(result))
+      return result as unknown as AnyResult<TReturn, E | TError>;
+
+    const { data } = result;
+    return Result.tryCatch(() => {
+      const value = callback(data);
+      return value === undefined ? (data as unknown as TReturn) : value;
+    }, normalizeError) as AnyResult<TReturn, E | TError>;
+  };
+}
+
+/**
+ * Transforms the error value, capturing exceptions and keeping the error when the callback returns nothing.
+ * @see Result.not
+ */
+export function not<E, TError = E>(
+  callback: (error: E) => void | undefined,
+  normalizeError?: ErrorNormalizer<TError>,
+): <T>(result: AnyResult<T, E>) => AnyResult<T, E | TError>;
+export function not<E, TReturn, TError = TReturn>(
+  callback: (error: E) => TReturn,
+  normalizeError?: ErrorNormalizer<TError>,
+): <T>(result: AnyResult<T, E>) => AnyResult<T, TReturn | TError>;
+export function not<E, TReturn, TError = TReturn>(
+  callback: (error: E) => TReturn,
+  normalizeError?: ErrorNormalizer<TError>,
+): <T>(result: AnyResult<T, E>) => AnyResult<T, TReturn | TError> {
+  return <T>(result: AnyResult<T, E>) => {
+    if (!Result.notOk(result))
+      return result as unknown as AnyResult<T, TReturn | TError>;
+
+    const { error } = result;
+    const mapped = Result.tryCatch(
+      () => callback(error) ?? (error as unknown as TReturn),
+      normalizeError,
+    );
+    return (
+      Result.isOk(mapped) ? Result.not<TReturn, T>(mapped.data) : mapped
+    ) as AnyResult<T, TReturn | TError>;
+  };
+}
+
+/**
+ * Chains a result-returning operation on the successful value.
+ * @see Result.andThen
+ */
+export function andThen<T, R extends AnyResult<any, any>>(
+  callback: (data: T) => R,
+): <E>(
+  result: AnyResult<T, E>,
+) => AnyResult<ResultData<R>, E | ResultError<R>> {
+  return <E>(result: AnyResult<T, E>) => {
+    if (!Result.isOk(result))
+      return result as unknown as AnyResult<ResultData<R>, E | ResultError<R>>;
+
+    const { data } = result;
+    const returned = Result.tryCatch(() => callback(data));
+    return (Result.isOk(returned) ? returned.data : returned) as AnyResult<
+      ResultData<R>,
+      E | ResultError<R>
+    >;
+  };
+}
+
+/**
+ * Runs a side effect with the successful value and returns the result unchanged.
+ * @example
+ * pipe(findUser(id), tap((user) => console.log('Found', user.id)));
+ */
+export function tap<T>(
+  callback: (data: T) => void,
+): <E>(result: AnyResult<T, E>) => AnyResult<T, E> {
+  return (result) => {
+    if (Result.isOk(result)) callback(result.data);
+    return result;
+  };
+}
+
+/**
+ * Returns the successful value or the default value.
+ * @see Result.defaultValue
+ */
+export function defaultValue<T, TValue = T>(
+  value: TValue | ((data: T) => TValue),
+): <E>(result: AnyResult<T, E>) => T | TValue {
+  return (result) => {
+    if (Result.isOk(result)) return result.data;
+    return typeof value === 'function'
+      ? (value as (data: T) => TValue)(result.data as T)
+      : value;
+  };
+}
+
+/**
+ * Returns the successful value or the value returned by the callback.
+ * @see Result.or
+ */
+export function or<E, TReturn>(
+  callback: (error: E) => TReturn,
+): <T>(result: AnyResult<T, E>) => T | TReturn {
+  return (result) =>
+    Result.isOk(result) ? result.data : callback(result.error);
+}
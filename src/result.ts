@@ -1,31 +1,85 @@
 /**
  * Represents a successful result.
+ * Narrowing on `kind === Result.OK` (or `Result.isOk`) types `data` as `T` and `error` as `null`.
  * @template T The type of the successful value.
+ * @template E The type of the error value.
  */
-export type Ok<T, E = Error> = Omit<
-  Result<T, null>,
-  keyof ResultChainMethods<any>
-> & {
-  data: T;
-  error: E | null;
+export type Ok<T, E = Error> = {
+  readonly kind: OkValue;
+  readonly data: T;
+  readonly error: null;
 } & ResultMethods<T, E>;
 
 /**
  * Represents a failed result.
+ * Narrowing on `kind === Result.NOT` (or `Result.notOk`) types `error` as `E` and `data` as `null`.
  * @template E The type of the error value.
+ * @template T The type of the successful value.
  */
-export type Not<E, T = null> = Omit<
-  Result<null, E>,
-  keyof ResultChainMethods<any>
-> & {
-  data: T | null;
-  error: E;
+export type Not<E, T = null> = {
+  readonly kind: NotValue;
+  readonly data: null;
+  readonly error: E;
 } & ResultMethods<T, E>;
 
 export type AnyResult<T, E = Error> = Ok<T, E> | Not<E, T>;
 
 export type AnyError<E, DE = Error> = E extends null | never ? DE : E;
 
+/**
+ * Extracts the successful value type of a result, a promise of a result or an `AsyncResult`.
+ */
+export type ResultData<R> =
+  R extends PromiseLike<infer TResult>
+    ? ResultData<TResult>
+    : R extends { readonly kind: OkValue; readonly data: infer T }
+      ? T
+      : never;
+
+/**
+ * Extracts the error type of a result, a promise of a result or an `AsyncResult`.
+ */
+export type ResultError<R> =
+  R extends PromiseLike<infer TResult>
+    ? ResultError<TResult>
+    : R extends { readonly kind: NotValue; readonly error: infer E }
+      ? E
+      : never;
+
+/**
+ * Represents a value that is present.
+ * @template T The type of the value.
+ */
+export type Some<T> = {
+  readonly kind: SomeValue;
+  readonly value: T;
+} & OptionMethods<T>;
+
+/**
+ * Represents a value that is absent.
+ * @template T The type the value would have if it were present.
+ */
+export type None<T = never> = {
+  readonly kind: NoneValue;
+  readonly value: undefined;
+} & OptionMethods<T>;
+
+export type AnyOption<T> = Some<T> | None<T>;
+
+export type OptionMethods<T> = {
+  map<TReturn>(callback: (value: T) => TReturn): AnyOption<TReturn>;
+
+  andThen<TReturn>(
+    callback: (value: T) => AnyOption<TReturn>,
+  ): AnyOption<TReturn>;
+
+  unwrapOr<TValue>(value: TValue): T | TValue;
+
+  match<TSome, TNone>(
+    handlers: OptionMatchHandlers<T, TSome, TNone>,
+  ): TSome | TNone;
+};
+
 export type ResultMethods<T, E = Error> = {
   defaultValue<TValue = T>(value: TValue | ((data: T) => TValue)): TValue | T;
 
@@ -35,7 +89,26 @@ export type ResultMethods<T, E = Error> = {
 
   or<TReturn>(callback: (error: E) => TReturn): T | TReturn;
 
-  throwIfNotOk(): void;
+  throwIfNotOk(): asserts this is Ok<T, E>;
+
+  unwrap(): T;
+
+  expect(message: string): T;
+
+  unwrapErr(): E;
+
+  unwrapOr<TValue>(value: TValue): T | TValue;
+
+  unwrapOrElse<TReturn>(callback: (error: E) => TReturn): T | TReturn;
+
+  toOption(): AnyOption<T>;
+
+  matchError<K extends keyof E, H extends ErrorMatchHandlers<E, K>>(
+    key: K,
+    handlers: H,
+  ): T | ReturnType<H[keyof H]>;
+
+  [Symbol.iterator](): Generator<Not<E, T>, T, unknown>;
 } & ResultChainMethods<T, E>;
 
 export type ResultChainMethods<T, E = Error> = {
@@ -48,7 +121,12 @@ export type ResultChainMethods<T, E = Error> = {
 
   ok<TError = Error>(
     callback: (data: T, result: Ok<T>) => void | never | undefined,
+    normalizeError?: ErrorNormalizer<TError>,
   ): AnyResult<T, E | TError>;
+  ok<TReturn, TError>(
+    callback: (data: T, result: Ok<T>) => TReturn,
+    normalizeError: ErrorNormalizer<TError>,
+  ): AnyResult<TReturn, E | TError>;
   ok<TReturn, TError = Error>(
     callback: (data: T, result: Ok<T>) => TReturn,
   ): AnyResult<TReturn, AnyError<E, TError>>;
@@ -60,14 +138,34 @@ export type ResultChainMethods<T, E = Error> = {
   //   callback: (error: E, result: Not<E>) => TReturn,
   // ): AnyResult<TData, TReturn>;
 
-  not(
+  not<TError = E>(
     callback: (error: AnyError<E>, result: Not<E>) => void | never | undefined,
-  ): AnyResult<T, E>;
-  not<TReturn>(
+    normalizeError?: ErrorNormalizer<TError>,
+  ): AnyResult<T, E | TError>;
+  not<TReturn, TError = TReturn>(
     callback: (error: AnyError<E>, result: Not<E>) => TReturn,
-  ): AnyResult<T, TReturn>;
+    normalizeError?: ErrorNormalizer<TError>,
+  ): AnyResult<T, TReturn | TError>;
 
   to<TReturn>(mutator: (data: T) => TReturn): AnyResult<TReturn, E>;
+
+  andThen<R extends AnyResult<any, any>>(
+    callback: (data: T, result: Ok<T>) => R,
+  ): AnyResult<ResultData<R>, E | ResultError<R>>;
+
+  flatMap<R extends AnyResult<any, any>>(
+    callback: (data: T, result: Ok<T>) => R,
+  ): AnyResult<ResultData<R>, E | ResultError<R>>;
+
+  orElse<R extends AnyResult<any, any>>(
+    callback: (error: AnyError<E>, result: Not<E>) => R,
+  ): AnyResult<T | ResultData<R>, ResultError<R>>;
+
+  context(message: string): AnyResult<T, ContextualError<E>>;
+
+  withContext(
+    getMessage: (error: E) => string,
+  ): AnyResult<T, ContextualError<E>>;
 };
 
 export type OkValue = 'ok';
@@ -76,6 +174,15 @@ export type NotValue = 'not';
 
 export type MatchTypes = OkValue | NotValue;
 
+export type SomeValue = 'some';
+
+export type NoneValue = 'none';
+
+export type OptionMatchHandlers<T, TSome, TNone> = {
+  some: (value: T) => TSome;
+  none: () => TNone;
+};
+
 export type ResultMatchHandler<TResult, TReturn = void> = (
   result: TResult,
 ) => TReturn;
@@ -90,42 +197,664 @@ export type ResultMatchHandlers<
   not: ResultMatchHandler<TError, TFReturn>;
 };
 
+/**
+ * Handlers used to match a promise of a result.
+ * A rejected promise is passed to `rejected` when provided, otherwise to `not`,
+ * and the rejection propagates when neither is given.
+ */
+export type ResultAsyncMatchHandlers<
+  TData = any,
+  TError = any,
+  TSReturn = any,
+  TFReturn = any,
+  TRReturn = any,
+> = ResultMatchHandlers<TData, TError, TSReturn, TFReturn> & {
+  rejected?: ResultMatchHandler<unknown, TRReturn>;
+};
+
+/**
+ * A pattern accepted by `ResultMatcher#not`: an error class, a literal value or a partial object.
+ */
+export type ErrorPattern<E> =
+  | (abstract new (...args: any[]) => any)
+  | (E extends object ? { [K in keyof E]?: ErrorPattern<E[K]> } : E);
+
+type ErrorPatternTarget<P> = P extends abstract new (...args: any[]) => infer I
+  ? I
+  : P;
+
+/**
+ * The members of the error union `E` matched by the pattern `P`.
+ */
+export type MatchedError<E, P> = [Extract<E, ErrorPatternTarget<P>>] extends [
+  never,
+]
+  ? E & ErrorPatternTarget<P>
+  : Extract<E, ErrorPatternTarget<P>>;
+
+export type MatcherOutput<TAsync extends boolean, TReturn> = TAsync extends true
+  ? Promise<TReturn>
+  : TReturn;
+
+/**
+ * One handler for each value of the discriminant `K` of the error union `E`,
+ * receiving the member of the union narrowed by that value.
+ */
+export type ErrorMatchHandlers<E, K extends keyof E> = {
+  [V in E[K] & PropertyKey]: (error: Extract<E, { [P in K]: V }>) => any;
+};
+
+export type TaggedErrorOptions = {
+  message?: string;
+  cause?: unknown;
+};
+
+/**
+ * An error instance created by a class from `defineError`.
+ * @template TTag The literal tag of the error.
+ * @template TProps The static properties shared by every instance (e.g. `code`, `status`).
+ * @template TPayload The properties given to each instance.
+ */
+export type TaggedError<
+  TTag extends string,
+  TProps extends object = {},
+  TPayload extends object = {},
+> = Error &
+  Readonly<TProps> &
+  Readonly<TPayload> & {
+    readonly _tag: TTag;
+    readonly cause?: unknown;
+    toJSON(): {
+      _tag: TTag;
+      name: string;
+      message: string;
+      cause?: unknown;
+    } & TProps &
+      TPayload;
+  };
+
+/**
+ * A class created by `defineError`.
+ */
+export type TaggedErrorClass<
+  TTag extends string,
+  TProps extends object = {},
+  TPayload extends object = {},
+> = {
+  new (
+    ...args: {} extends TPayload
+      ? [payload?: TPayload, options?: TaggedErrorOptions]
+      : [payload: TPayload, options?: TaggedErrorOptions]
+  ): TaggedError<TTag, TProps, TPayload>;
+  readonly _tag: TTag;
+  is(value: unknown): value is TaggedError<TTag, TProps, TPayload>;
+};
+
+/**
+ * Extracts the union of error instances from error classes (or a record of them),
+ * to be used as the error type of `AnyResult<T, E>`.
+ * @example
+ * type UserError = ErrorUnion<typeof NotFound | typeof Forbidden>;
+ * type AppError = ErrorUnion<typeof AppErrors>; // const AppErrors = { NotFound, Forbidden }
+ */
+export type ErrorUnion<T> = T extends abstract new (...args: any[]) => infer I
+  ? I
+  : T extends object
+    ? ErrorUnion<T[keyof T]>
+    : never;
+
+/**
+ * The error created by `result.context()`, wrapping the previous error as its `cause`.
+ * @template E The type of the wrapped error.
+ */
+export type ContextualError<E> = InstanceType<typeof ContextError> & {
+  readonly cause: E;
+};
+
+/**
+ * A failed attempt of `Result.retry`.
+ * @template E The type of the error of the attempt.
+ */
+export type RetryAttempt<E> = {
+  /** The number of the attempt, starting at 1. */
+  attempt: number;
+  error: E;
+  /** When the attempt failed, according to the configured clock. */
+  timestamp: number;
+  /** How long to wait before the next attempt, `0` for the last one. */
+  delay: number;
+};
+
+/**
+ * The error returned by `Result.retry` once it gives up, with the last error as `cause`.
+ * @template E The type of the error of each attempt.
+ */
+export type RetryFailure<E> = InstanceType<typeof RetryError> & {
+  readonly cause: E;
+  readonly history: readonly RetryAttempt<E>[];
+};
+
+export type RetryOptions<E> = {
+  /** The maximum number of attempts, including the first one. Defaults to `3`. */
+  attempts?: number;
+  /** The base delay between attempts, in milliseconds. Defaults to `100`. */
+  delay?: number;
+  /**
+   * How the delay grows after each failed attempt. Defaults to `'exponential'`.
+   * A function receives the number of the failed attempt and returns the delay.
+   */
+  backoff?: 'fixed' | 'linear' | 'exponential' | ((attempt: number) => number);
+  /** The upper bound of the delay, applied before the jitter. */
+  maxDelay?: number;
+  /** Waits a random time between `0` and the delay instead of the delay itself. */
+  jitter?: boolean;
+  /** Decides whether a failure should be retried. Defaults to retrying every failure. */
+  shouldRetry?: (error: E, attempt: number) => boolean;
+  /** Called before waiting for the next attempt. */
+  onRetry?: (attempt: RetryAttempt<E>) => void;
+  /** Waits between attempts. Defaults to `setTimeout`. */
+  sleep?: (ms: number) => PromiseLike<void>;
+  /** Returns the current time of the attempt history. Defaults to `Date.now`. */
+  clock?: () => number;
+  /** Returns a random number between `0` and `1` for the jitter. Defaults to `Math.random`. */
+  random?: () => number;
+};
+
+/**
+ * The state of a circuit: `closed` lets every call through, `open` rejects them
+ * and `half-open` lets a few trial calls through to decide whether to close again.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitStateChange = {
+  key: string;
+  from: CircuitState;
+  to: CircuitState;
+  timestamp: number;
+};
+
+export type CircuitBreakerOptions<TArgs extends unknown[], E> = {
+  /** The number of consecutive failures that opens the circuit. Defaults to `5`. */
+  failureThreshold?: number;
+  /** How long the circuit stays open before allowing trial calls, in milliseconds. Defaults to `30_000`. */
+  resetTimeout?: number;
+  /** The maximum number of concurrent trial calls while half-open. Defaults to `1`. */
+  halfOpenMaxCalls?: number;
+  /** Decides whether a failure counts towards opening the circuit. Defaults to counting every failure. */
+  isFailure?: (error: E) => boolean;
+  /** Returns the key of the circuit used by a call, so each key has its own state. Defaults to a single circuit. */
+  key?: NoInfer<(...args: TArgs) => string>;
+  /** Called whenever a circuit changes its state. */
+  onStateChange?: (change: CircuitStateChange) => void;
+  /** Returns the current time in milliseconds. Defaults to `Date.now`. */
+  clock?: () => number;
+};
+
+/**
+ * A function guarded by `Result.circuitBreaker`.
+ * @template TArgs The parameters of the function.
+ * @template TData The type of the successful value.
+ * @template E The type of the error value.
+ */
+export type CircuitBreaker<TArgs extends unknown[], TData, E> = {
+  (
+    ...args: TArgs
+  ): AsyncResult<TData, E | InstanceType<typeof CircuitOpenError>>;
+  /** Returns the current state of the circuit of the key. */
+  state(key?: string): CircuitState;
+  /** Closes the circuit of the key, or every circuit without a key. */
+  reset(key?: string): void;
+};
+
+/**
+ * A result kept by `Result.cached`, with the times it expires.
+ * @template T The type of the successful value.
+ * @template E The type of the error value.
+ */
+export type CacheEntry<T, E> = {
+  result: AnyResult<T, E>;
+  /** When the entry stops being fresh, in milliseconds. */
+  expiresAt: number;
+  /** Until when the entry can still be returned while it is refreshed, in milliseconds. */
+  staleUntil: number;
+};
+
+/**
+ * The storage of `Result.cached`. Every method may return a promise, so external stores can be plugged in.
+ * @template TValue The type of the stored values.
+ */
+export type CacheStore<TValue> = {
+  get(key: string): TValue | undefined | PromiseLike<TValue | undefined>;
+  set(key: string, value: TValue): void | PromiseLike<void>;
+  delete(key: string): void | PromiseLike<void>;
+};
+
+export type CachedOptions<TArgs extends unknown[], T, E> = {
+  /** How long a successful result stays fresh, in milliseconds. */
+  ttl: number;
+  /** How long an expired successful result is still returned while it is refreshed in the background, in milliseconds. Defaults to `0`. */
+  staleWhileRevalidate?: number;
+  /** Also caches failures, usually for a shorter `ttl`. Defaults to `false`. */
+  cacheErrors?: false | { ttl: number };
+  /** Returns the cache key of a call. Defaults to the JSON of the arguments. */
+  key?: NoInfer<(...args: TArgs) => string>;
+  /** Where the entries are kept. Defaults to an `LruStore` of 1000 entries. */
+  store?: CacheStore<CacheEntry<T, E>>;
+  /** Returns the current time in milliseconds. Defaults to `Date.now`. */
+  clock?: () => number;
+};
+
+/**
+ * A function memoized by `Result.cached`.
+ * @template TArgs The parameters of the function.
+ * @template TData The type of the successful value.
+ * @template E The type of the error value.
+ */
+export type Cached<TArgs extends unknown[], TData, E> = {
+  (...args: TArgs): AsyncResult<TData, E>;
+  /** Removes the cached entry of the key. */
+  invalidate(key: string): Promise<void>;
+};
+
+/**
+ * A function deduplicated by `Result.singleFlight`.
+ * @template TArgs The parameters of the function.
+ * @template TData The type of the successful value.
+ * @template E The type of the error value.
+ */
+export type SingleFlight<TArgs extends unknown[], TData, E> = {
+  (...args: TArgs): Promise<AnyResult<TData, E>>;
+  /** Stops sharing the in-flight call of the key, so the next call starts a new one. */
+  forget(key: string): void;
+};
+
 export type TryCatchFunction<TData = void> = () => TData;
 
-const handleSuccess = <TData>(
-  handler: Function,
-  result: Result<TData, any> | Promise<Result<TData, any>>,
-): any => {
-  if (result instanceof Promise)
-    return result.then((value) =>
-      Result.isOk(value) ? handler(value.data) : null,
+/**
+ * An async function run by `Result.tryCatchAsync`, which receives a signal that is aborted on timeout or cancellation.
+ */
+export type TryCatchAsyncFunction<TData> = (
+  signal: AbortSignal,
+) => Promise<TData>;
+
+/**
+ * Extracts the union of error types yielded by a `Result.gen` generator.
+ */
+export type ResultGenError<TYield> =
+  TYield extends Not<infer E, any> ? E : never;
+
+export type MaybePromiseResult =
+  AnyResult<any, any> | PromiseLike<AnyResult<any, any>>;
+
+export type ResultTupleData<TResults extends readonly unknown[]> = {
+  -readonly [K in keyof TResults]: ResultData<TResults[K]>;
+};
+
+export type ResultTupleError<TResults extends readonly unknown[]> = {
+  -readonly [K in keyof TResults]: ResultError<TResults[K]>;
+};
+
+export type ResultRecordData<TResults extends Record<string, unknown>> = {
+  -readonly [K in keyof TResults]: ResultData<TResults[K]>;
+};
+
+export type ResultRecordError<TResults extends Record<string, unknown>> = {
+  -readonly [K in keyof TResults]?: ResultError<TResults[K]>;
+};
+
+export type NonEmptyArray<T> = [T, ...T[]];
+
+/**
+ * Represents the outcome of a validation that accumulates every error.
+ * @template T The type of the validated value.
+ * @template E The type of each validation error.
+ */
+export type Validated<T, E> = AnyResult<T, NonEmptyArray<E>>;
+
+/**
+ * Converts an unknown thrown value or rejection reason into an error.
+ * @template TError The type of the normalized error.
+ */
+export type ErrorNormalizer<TError = Error> = (error: unknown) => TError;
+
+/**
+ * Decides which exceptions are captured as failures; the others are rethrown.
+ * `'all'` captures everything, `'none'` rethrows everything and a predicate captures what it accepts.
+ */
+export type CapturePolicy = 'all' | 'none' | ((error: unknown) => boolean);
+
+export type ResultConfig = {
+  /**
+   * Converts every captured exception or rejection that has no per-call normalizer.
+   * By default, the thrown value is stored as is.
+   */
+  normalizeError?: ErrorNormalizer<unknown>;
+
+  /**
+   * Decides which exceptions are captured when there is no per-call `catch` list.
+   * Defaults to `'all'`.
+   */
+  captureExceptions?: CapturePolicy;
+};
+
+/**
+ * An object whose methods return results, created with `Result.wrapObject`.
+ * @template TObject The type of the wrapped object.
+ * @template TError The type of the error value.
+ */
+export type WrappedObject<TObject, TError = Error> = {
+  [K in keyof TObject]: TObject[K] extends (
+    ...args: infer TArgs
+  ) => infer TReturn
+    ? TReturn extends PromiseLike<infer TData>
+      ? (...args: TArgs) => Promise<AnyResult<TData, TError>>
+      : (...args: TArgs) => AnyResult<TReturn, TError>
+    : TObject[K];
+};
+
+/**
+ * The options of the `Result.capture`, `Result.captureAsync` and `Result.captureAll` decorators.
+ * @template TError The error type declared by the decorated method.
+ */
+export type CaptureMethodOptions<TError = Error> = {
+  /**
+   * Only captures instances of these classes, anything else is rethrown.
+   */
+  catch?: ErrorClassList;
+
+  /**
+   * Converts the captured exception into the error declared by the method.
+   */
+  mapError?: ErrorNormalizer<TError>;
+};
+
+export type ErrorClassList = readonly (abstract new (...args: any[]) => any)[];
+
+export type CaptureOptions<TError = Error> = {
+  /**
+   * Only captures instances of these classes, anything else is rethrown.
+   */
+  catch?: ErrorClassList;
+
+  /**
+   * Converts the captured exception or rejection reason into the error of the result.
+   */
+  normalizeError?: ErrorNormalizer<TError>;
+};
+
+export type CancelOptions = {
+  /**
+   * Fails with a `TimeoutError` when the operation has not settled after this many milliseconds.
+   */
+  timeout?: number;
+
+  /**
+   * Fails with an `AbortedError` as soon as this signal is aborted.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * Options that set a `timeout` or a `signal`, which adds a `CancellationError` to the error type.
+ * @template TOptions The other options.
+ */
+export type CancellableOptions<TOptions = unknown> = TOptions &
+  CancelOptions &
+  ({ timeout: number } | { signal: AbortSignal | undefined });
+
+/**
+ * The failure of an operation that timed out or was aborted.
+ */
+export type CancellationError =
+  InstanceType<typeof TimeoutError> | InstanceType<typeof AbortedError>;
+
+export type ResolveOptions<TError = Error> = CaptureOptions<TError> &
+  CancelOptions & {
+    /**
+     * Returns an `AsyncResult` instead of a bare promise.
+     */
+    chain?: boolean;
+  };
+
+const config: ResultConfig = {};
+
+const isCaptured = (error: unknown, errorClasses?: ErrorClassList) => {
+  if (errorClasses)
+    return errorClasses.some((ErrorClass) => error instanceof ErrorClass);
+
+  const policy = config.captureExceptions ?? 'all';
+  return typeof policy === 'function' ? policy(error) : policy === 'all';
+};
+
+/**
+ * Exceptions rethrown because of a per-call `catch` list, which an `AsyncResult`
+ * rejects with instead of capturing them again under the configured policy.
+ * Only objects can be tracked, so thrown primitives fall back to the configured policy.
+ */
+const rethrown = new WeakSet<object>();
+
+const capture = <TError>(
+  error: unknown,
+  options: CaptureOptions<TError> = {},
+): TError => {
+  if (!isCaptured(error, options.catch)) {
+    if (options.catch && typeof error === 'object' && error !== null)
+      rethrown.add(error);
+    throw error;
+  }
+
+  const normalizer = options.normalizeError ?? config.normalizeError;
+  return (normalizer ? normalizer(error) : error) as TError;
+};
+
+const toCaptureOptions = <TError>(
+  options?: ErrorNormalizer<TError> | CaptureOptions<TError>,
+): CaptureOptions<TError> =>
+  typeof options === 'function' ? { normalizeError: options } : (options ?? {});
+
+const captureMethod = <TError>(
+  method: (...args: any[]) => unknown,
+  { catch: errorClasses, mapError }: CaptureMethodOptions<TError> = {},
+) =>
+  function (this: unknown, ...args: unknown[]) {
+    const fail = (error: unknown) =>
+      Result.not(
+        capture(error, { catch: errorClasses, normalizeError: mapError }),
+      );
+
+    try {
+      const returned = method.apply(this, args);
+      return isPromiseLike(returned)
+        ? Promise.resolve(returned).catch(fail)
+        : returned;
+    } catch (error) {
+      return fail(error);
+    }
+  };
+
+const cancellable = <TResult>(
+  run: (signal: AbortSignal) => PromiseLike<TResult>,
+  { timeout, signal }: CancelOptions = {},
+): Promise<TResult | Not<CancellationError, never>> => {
+  const aborted = () =>
+    Result.not<CancellationError, never>(
+      new AbortedError(undefined, {
+        message: 'The operation was aborted',
+        cause: signal?.reason,
+      }),
+    );
+
+  if (signal?.aborted) return Promise.resolve(aborted());
+  if (timeout === undefined && !signal)
+    return Promise.resolve(run(new AbortController().signal));
+
+  const controller = new AbortController();
+  const settled = run(controller.signal);
+
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const cancel = (failure: Not<CancellationError, never>) => {
+      finish();
+      controller.abort(failure.error);
+      resolve(failure);
+    };
+    const onAbort = () => cancel(aborted());
+    const timer =
+      timeout === undefined
+        ? undefined
+        : setTimeout(
+            () =>
+              cancel(
+                Result.not(
+                  new TimeoutError(
+                    { timeout },
+                    { message: `Timed out after ${timeout}ms` },
+                  ),
+                ),
+              ),
+            timeout,
+          );
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    Promise.resolve(settled).then(
+      (result) => {
+        finish();
+        resolve(result);
+      },
+      (error) => {
+        finish();
+        reject(error);
+      },
     );
+  });
+};
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const retryDelay = (attempt: number, options: RetryOptions<any>): number => {
+  const {
+    delay = 100,
+    backoff = 'exponential',
+    maxDelay = Infinity,
+    jitter = false,
+    random = Math.random,
+  } = options;
+
+  const base =
+    typeof backoff === 'function'
+      ? backoff(attempt)
+      : backoff === 'linear'
+        ? delay * attempt
+        : backoff === 'exponential'
+          ? delay * 2 ** (attempt - 1)
+          : delay;
+
+  const capped = Math.min(base, maxDelay);
+  return jitter ? Math.round(random() * capped) : capped;
+};
+
+const describeValue = (value: unknown): string => {
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (typeof value === 'string') return value;
+
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
 
-  if (!Result.isOk(result)) return null;
-  return handler(result.data);
+const isPromiseLike = <T = unknown>(value: unknown): value is PromiseLike<T> =>
+  !!value && typeof (value as PromiseLike<T>).then === 'function';
+
+const matchResult = (
+  result: AnyResult<any, any>,
+  handlers: Partial<ResultAsyncMatchHandlers>,
+): any => {
+  if (Result.isOk(result)) return handlers.ok ? handlers.ok(result.data) : null;
+  return handlers.not ? handlers.not(result.error) : null;
 };
 
+const matchPromise = (
+  result: PromiseLike<AnyResult<any, any>>,
+  handlers: Partial<ResultAsyncMatchHandlers>,
+): Promise<any> =>
+  Promise.resolve(result).then(
+    (awaitedResult) => matchResult(awaitedResult, handlers),
+    (reason) => {
+      const handler = handlers.rejected ?? handlers.not;
+      if (!handler) throw reason;
+      return handler(reason);
+    },
+  );
+
+const handleSuccess = <TData>(
+  handler: ResultMatchHandler<TData, any>,
+  result: AnyResult<TData, any> | PromiseLike<AnyResult<TData, any>>,
+): any =>
+  isPromiseLike(result)
+    ? matchPromise(result, { ok: handler })
+    : matchResult(result, { ok: handler });
+
 const handleFailure = <TError>(
-  handler: Function,
-  result: Result<any, TError> | Promise<Result<any, TError>>,
-): TError | Promise<TError> | null => {
-  if (result instanceof Promise)
-    return result
-      .then((value) => (Result.notOk(value) ? handler(value.error) : null))
-      .catch((value) => handler(value));
+  handler: ResultMatchHandler<TError, any>,
+  result: AnyResult<any, TError> | PromiseLike<AnyResult<any, TError>>,
+): any =>
+  isPromiseLike(result)
+    ? matchPromise(result, { not: handler })
+    : matchResult(result, { not: handler });
+
+const matchesPattern = (value: unknown, pattern: unknown): boolean => {
+  if (typeof pattern === 'function') return value instanceof pattern;
+  if (pattern === null || typeof pattern !== 'object')
+    return Object.is(value, pattern);
+  if (value === null || typeof value !== 'object') return false;
 
-  if (!Result.notOk(result)) return null;
-  return handler(result.error);
+  return Object.keys(pattern).every((key) =>
+    matchesPattern((value as any)[key], (pattern as any)[key]),
+  );
 };
 
-// export default interface Result<T, E = Error> {
-//   new (dataOrFn: T | (() => T)): Ok<T, E>;
-//   new (
-//     dataOrFn: null,
-//     errorOrFn: E | null | (() => E) ,
-//   ): Not<E>;
+const validateResults = (
+  results: Record<string, MaybePromiseResult> | readonly MaybePromiseResult[],
+  keyedErrors: boolean,
+): AnyResult<any, any> | AsyncResult<any, any> => {
+  const keys = Object.keys(results);
+  const values: MaybePromiseResult[] = keys.map((key) => (results as any)[key]);
+  const rebuild = <TValue>(items: TValue[]) =>
+    Array.isArray(results)
+      ? items
+      : Object.fromEntries(keys.map((key, index) => [key, items[index]]));
 
-// }
+  if (values.some(isPromiseLike))
+    return new AsyncResult(
+      Promise.all(values.map((value) => AsyncResult.from(value))).then(
+        (awaitedValues) =>
+          validateResults(
+            rebuild(awaitedValues) as Record<string, MaybePromiseResult>,
+            keyedErrors,
+          ),
+      ),
+    );
+
+  const data: any[] = [];
+  const errors: [string, any][] = [];
+
+  (values as AnyResult<any, any>[]).forEach((result, index) => {
+    if (Result.notOk(result)) errors.push([keys[index], result.error]);
+    else data.push(result.data);
+  });
+
+  if (errors.length === 0) return Result.ok(rebuild(data));
+
+  return Result.not(
+    keyedErrors ? Object.fromEntries(errors) : errors.map(([, error]) => error),
+  );
+};
 
 /**
  * Represents either a successful or failed result.
@@ -178,52 +907,435 @@ export default class Result<T, E = Error> {
     return Result.not(resolvedError);
   }
 
-  public static notOk<E = Error, T = null>(
-    result: AnyResult<T, E>,
-  ): result is Not<E, T>;
-  public static notOk<E = Error>(result: any): result is Not<E>;
-  public static notOk<E = Error, T = null>(result: any): result is Not<E, T> {
-    return !!result && result instanceof Result && result.error !== null;
-  }
-
-  public static isOk<T, E = Error>(result: AnyResult<T, E>): result is Ok<T, E>;
-  public static isOk<T, E = Error>(result: any): result is Ok<T>;
-  public static isOk<T, E = Error>(result: any): result is Ok<T, E> {
-    return !!result && result instanceof Result && result.error === null;
+  /**
+   * Creates a `Result` that is a failure when the value is `null` or `undefined`.
+   * @template TData The type of the value.
+   * @template TError The type of the error value.
+   * @param value The value that may be missing.
+   * @param error The error to use if the value is missing, or a function that returns it.
+   * @returns A success with the non-nullable value or a failure with the error.
+   * @example
+   * const user = Result.fromNullable(users.get(id), () => new NotFound({ id })); // AnyResult<User, NotFound>
+   */
+  public static fromNullable<TData, TError = Error>(
+    value: TData,
+    error: TError | (() => TError),
+  ): AnyResult<NonNullable<TData>, TError> {
+    return Result.from(
+      value as NonNullable<TData>,
+      value !== null && value !== undefined,
+      error,
+    );
   }
 
   /**
-   * Creates a failed result.
+   * Creates a `Result` from a value and a predicate, narrowing the value when the predicate is a type guard.
+   * @template TData The type of the value.
    * @template TError The type of the error value.
-   * @param errorOrFn The error or a function that returns the error.
-   * @returns A failed result containing the error.
+   * @param value The value to check.
+   * @param predicate A function that determines if the value is a success.
+   * @param error The error to use if the predicate fails, or a function that receives the value and returns it.
+   * @returns A success with the (narrowed) value or a failure with the error.
+   * @example
+   * const isUser = (value: unknown): value is User =>
+   *   typeof value === 'object' && value !== null && 'id' in value;
+   *
+   * const user = Result.fromPredicate(payload, isUser, new Error('Invalid user')); // AnyResult<User, Error>
+   */
+  public static fromPredicate<TData, TNarrowed extends TData, TError = Error>(
+    value: TData,
+    predicate: (value: TData) => value is TNarrowed,
+    error: TError | ((value: TData) => TError),
+  ): AnyResult<TNarrowed, TError>;
+  public static fromPredicate<TData, TError = Error>(
+    value: TData,
+    predicate: (value: TData) => boolean,
+    error: TError | ((value: TData) => TError),
+  ): AnyResult<TData, TError>;
+  public static fromPredicate<TData, TError = Error>(
+    value: TData,
+    predicate: (value: TData) => boolean,
+    error: TError | ((value: TData) => TError),
+  ): AnyResult<TData, TError> {
+    return Result.from(value, predicate(value), () =>
+      typeof error === 'function'
+        ? (error as (value: TData) => TError)(value)
+        : error,
+    );
+  }
+
+  /**
+   * Creates an `AsyncResult` from a value (or promise) and an async condition.
+   * A rejection of the value or the condition becomes a failure.
+   * @template TData The type of the value.
+   * @template TError The type of the error value.
+   * @param value The value to check or a promise that resolves to it.
+   * @param condition A function that determines if the value is a success, possibly asynchronously.
+   * @param error The error to use if the condition fails, or a function that receives the value and returns it.
+   * @returns An `AsyncResult` with the value or the error.
+   * @example
+   * const username = await Result.fromAsync(
+   *   form.username,
+   *   (username) => api.isUsernameAvailable(username),
+   *   (username) => ({ field: 'username', message: `${username} is already taken` }),
+   * );
+   */
+  public static fromAsync<TData, TError = Error>(
+    value: TData | PromiseLike<TData>,
+    condition: (value: TData) => boolean | PromiseLike<boolean>,
+    error: TError | ((value: TData) => TError),
+  ): AsyncResult<TData, TError> {
+    return new AsyncResult(
+      Promise.resolve(value).then(async (resolvedValue) => {
+        const isOk = await condition(resolvedValue);
+        return Result.fromPredicate(resolvedValue, () => isOk, error);
+      }),
+    );
+  }
+
+  /**
+   * Turns a function that throws into a function that returns a result, with the same parameters.
+   * @template TArgs The parameters of the function.
+   * @template TReturn The return type of the function.
+   * @template TError The type of the error value.
+   * @param callback The function that may throw.
+   * @param options A function that converts the thrown value into the error, or capture options (see `tryCatch`).
+   * @returns A function that calls `callback` (with the same `this`) and captures its return value or error.
+   * @example
+   * const safeParse = Result.fromThrowable(JSON.parse, toError);
+   * const config = safeParse(raw); // AnyResult<any, Error>
+   */
+  public static fromThrowable<TArgs extends unknown[], TReturn, TError = Error>(
+    callback: (...args: TArgs) => TReturn,
+    options?: ErrorNormalizer<TError> | CaptureOptions<TError>,
+  ): (...args: TArgs) => AnyResult<TReturn, TError> {
+    const captureOptions = toCaptureOptions(options);
+
+    return function (this: unknown, ...args) {
+      return Result.tryCatch(() => callback.apply(this, args), captureOptions);
+    };
+  }
+
+  /**
+   * Alias of `fromThrowable()`.
+   */
+  public static wrap<TArgs extends unknown[], TReturn, TError = Error>(
+    callback: (...args: TArgs) => TReturn,
+    options?: ErrorNormalizer<TError> | CaptureOptions<TError>,
+  ): (...args: TArgs) => AnyResult<TReturn, TError> {
+    return Result.fromThrowable(callback, options);
+  }
+
+  /**
+   * Turns an async function into a function that resolves to a result, with the same parameters.
+   * Both rejections and synchronous exceptions are captured.
+   * @template TArgs The parameters of the function.
+   * @template TData The resolved type of the function.
+   * @template TError The type of the error value.
+   * @param callback The async function that may reject.
+   * @param options A function that converts the rejection reason into the error, or capture options (see `tryCatch`).
+   * @returns A function that calls `callback` (with the same `this`) and resolves to a result.
+   * @example
+   * const getUser = Result.wrapAsync(sdk.users.get.bind(sdk.users));
+   * const user = await getUser('user-1'); // AnyResult<User, Error>
+   */
+  public static wrapAsync<TArgs extends unknown[], TData, TError = Error>(
+    callback: (...args: TArgs) => PromiseLike<TData>,
+    options?: ErrorNormalizer<TError> | CaptureOptions<TError>,
+  ): (...args: TArgs) => Promise<AnyResult<TData, TError>> {
+    const captureOptions = toCaptureOptions(options);
+
+    return function (this: unknown, ...args) {
+      return Result.tryCatchAsync<TData, TError>(
+        async () => callback.apply(this, args),
+        captureOptions,
+      );
+    };
+  }
+
+  /**
+   * Creates a proxy of an object where every method returns a result instead of throwing.
+   * Methods returning a promise resolve to a result, other properties are returned as they are.
+   * Methods are called with the original object as `this`, so private fields keep working.
+   * @template TObject The type of the object.
+   * @template TError The type of the error value.
+   * @param target The object whose methods are wrapped (e.g. a third-party SDK client).
+   * @param options A function that converts exceptions and rejections into the error, or capture options (see `tryCatch`).
+   * @returns A typed proxy of the object.
+   * @example
+   * const payments = Result.wrapObject(new PaymentsClient(apiKey), toPaymentError);
+   *
+   * const charge = await payments.charge(order.total); // AnyResult<Charge, PaymentError>
+   * const valid = payments.validateCard(card); // AnyResult<boolean, PaymentError>
+   */
+  public static wrapObject<TObject extends object, TError = Error>(
+    target: TObject,
+    options?: ErrorNormalizer<TError> | CaptureOptions<TError>,
+  ): WrappedObject<TObject, TError> {
+    const captureOptions = toCaptureOptions(options);
+
+    return new Proxy(target, {
+      get(object, property) {
+        const value = Reflect.get(object, property, object);
+        if (typeof value !== 'function' || property === 'constructor')
+          return value;
+
+        return (...args: unknown[]) => {
+          try {
+            const returned = value.apply(object, args);
+            return isPromiseLike(returned)
+              ? Result.resolve(Promise.resolve(returned), captureOptions)
+              : Result.ok(returned);
+          } catch (error) {
+            return Result.not(capture(error, captureOptions));
+          }
+        };
+      },
+    }) as WrappedObject<TObject, TError>;
+  }
+
+  /**
+   * Decorates a result-returning method so that exceptions thrown in its body become failures.
+   * The method must still declare an `AnyResult` return type, and `mapError` must return its error type.
+   * @template TError The error type declared by the method.
+   * @param options A `catch` list and a `mapError` function for the captured exceptions.
+   * @returns A standard (TC39) method decorator.
+   * @example
+   * class AuthenticationService {
+   *   @Result.capture({ mapError: toAuthError })
+   *   login(email: string, password: string): AnyResult<Session, AuthError> {
+   *     const user = this.users.getByEmail(email); // may throw
+   *     return this.createSession(user, password);
+   *   }
+   * }
+   */
+  public static capture<TError = Error>(
+    options?: CaptureMethodOptions<TError>,
+  ) {
+    return <This, TArgs extends unknown[], TData>(
+      method: (this: This, ...args: TArgs) => AnyResult<TData, TError>,
+      _context: ClassMethodDecoratorContext<
+        This,
+        (this: This, ...args: TArgs) => AnyResult<TData, TError>
+      >,
+    ) =>
+      captureMethod(method, options) as (
+        this: This,
+        ...args: TArgs
+      ) => AnyResult<TData, TError>;
+  }
+
+  /**
+   * Decorates an async result-returning method so that exceptions and rejections in its body become failures.
+   * The method must still declare a `Promise<AnyResult>` return type, and `mapError` must return its error type.
+   * @template TError The error type declared by the method.
+   * @param options A `catch` list and a `mapError` function for the captured exceptions.
+   * @returns A standard (TC39) method decorator.
+   * @example
+   * class OrderService {
+   *   @Result.captureAsync({ mapError: toOrderError })
+   *   async placeOrder(cart: Cart): Promise<AnyResult<Order, OrderError>> {
+   *     const order = await this.api.createOrder(cart); // may reject
+   *     return Result.ok(order);
+   *   }
+   * }
+   */
+  public static captureAsync<TError = Error>(
+    options?: CaptureMethodOptions<TError>,
+  ) {
+    return <This, TArgs extends unknown[], TData>(
+      method: (this: This, ...args: TArgs) => Promise<AnyResult<TData, TError>>,
+      _context: ClassMethodDecoratorContext<
+        This,
+        (this: This, ...args: TArgs) => Promise<AnyResult<TData, TError>>
+      >,
+    ) =>
+      captureMethod(method, options) as (
+        this: This,
+        ...args: TArgs
+      ) => Promise<AnyResult<TData, TError>>;
+  }
+
+  /**
+   * Decorates a class so that every method of its prototype is captured like `Result.capture` (or
+   * `Result.captureAsync` when the method returns a promise). Getters, setters and static methods are left as they are.
+   * Every method should declare an `AnyResult` (or `Promise<AnyResult>`) return type.
+   * @template TError The error type declared by the methods.
+   * @param options A `catch` list and a `mapError` function for the captured exceptions.
+   * @returns A standard (TC39) class decorator.
+   * @example
+   * @Result.captureAll({ mapError: toFileError })
+   * class FileProcessor {
+   *   read(path: string): AnyResult<string, FileError> { ... }
+   *   async upload(path: string): Promise<AnyResult<string, FileError>> { ... }
+   * }
+   */
+  public static captureAll<TError = Error>(
+    options?: CaptureMethodOptions<TError>,
+  ) {
+    return <TClass extends abstract new (...args: any[]) => any>(
+      value: TClass,
+      _context: ClassDecoratorContext<TClass>,
+    ): void => {
+      const prototype = value.prototype;
+
+      for (const key of Reflect.ownKeys(prototype)) {
+        const descriptor = Object.getOwnPropertyDescriptor(prototype, key);
+        if (
+          key === 'constructor' ||
+          !descriptor ||
+          typeof descriptor.value !== 'function'
+        )
+          continue;
+
+        Object.defineProperty(prototype, key, {
+          ...descriptor,
+          value: captureMethod(descriptor.value, options),
+        });
+      }
+    };
+  }
+
+  /**
+   * Creates a `Result` from an option, using the error function when the value is absent.
+   * @template TData The type of the value.
+   * @template TError The type of the error value.
+   * @param option The option to convert.
+   * @param getError A function that returns the error for an absent value.
+   * @returns A success with the value or a failure with the error.
+   * @example
+   * const user = Result.fromOption(findUser(id), () => new NotFound({ id }));
+   */
+  public static fromOption<TData, TError = Error>(
+    option: AnyOption<TData>,
+    getError: () => TError,
+  ): AnyResult<TData, TError> {
+    return Option.isSome(option)
+      ? Result.ok(option.value)
+      : Result.not(getError());
+  }
+
+  /**
+   * Swaps a result of an option into an option of a result, or the other way around.
+   * `Ok(None)` becomes `None` and `None` becomes `Ok(None)`, while failures are kept.
+   * @param value A result of an option or an option of a result.
+   * @returns The transposed value.
+   * @example
+   * const parsed = Result.ok(Option.some(42)); // AnyResult<AnyOption<number>, Error>
+   * const transposed = Result.transpose(parsed); // AnyOption<AnyResult<number, Error>>
+   * Result.transpose(transposed); // back to AnyResult<AnyOption<number>, Error>
+   */
+  public static transpose<TData, TError>(
+    value: AnyResult<AnyOption<TData>, TError>,
+  ): AnyOption<AnyResult<TData, TError>>;
+  public static transpose<TData, TError>(
+    value: AnyOption<AnyResult<TData, TError>>,
+  ): AnyResult<AnyOption<TData>, TError>;
+  public static transpose(value: any): any {
+    if (value instanceof Option) {
+      if (Option.isNone(value)) return Result.ok(Option.none());
+
+      const result = value.value as AnyResult<unknown, unknown>;
+      return Result.isOk(result) ? Result.ok(Option.some(result.data)) : result;
+    }
+
+    const result = value as AnyResult<AnyOption<unknown>, unknown>;
+    if (Result.notOk(result)) return Option.some(result);
+    return Option.isSome(result.data)
+      ? Option.some(Result.ok(result.data.value))
+      : Option.none();
+  }
+
+  public static notOk<E = Error, T = null>(
+    result: AnyResult<T, E>,
+  ): result is Not<E, T>;
+  public static notOk<E = Error>(result: any): result is Not<E>;
+  public static notOk<E = Error, T = null>(result: any): result is Not<E, T> {
+    return !!result && result instanceof Result && result.kind === Result.NOT;
+  }
+
+  public static isOk<T, E = Error>(result: AnyResult<T, E>): result is Ok<T, E>;
+  public static isOk<T, E = Error>(result: any): result is Ok<T>;
+  public static isOk<T, E = Error>(result: any): result is Ok<T, E> {
+    return !!result && result instanceof Result && result.kind === Result.OK;
+  }
+
+  /**
+   * Creates a failed result.
+   * The error is stored as is, so `null`, `undefined` and functions are valid errors.
+   * @template TError The type of the error value.
+   * @param error The error value.
+   * @returns A failed result containing the error.
    * @example
    * const result = Result.not(new Error('Something went wrong'));
    * console.log(result.error); // Error: Something went wrong
    */
-
-  public static not<E = Error, T = null>(errorOrFn: E | (() => E)): Not<E, T>;
-  public static not<E = Error>(errorOrFn: E | (() => E)): Not<E, any>;
-  public static not<E = Error, T = null>(errorOrFn: E | (() => E)): Not<E, T> {
-    return new Result(null, errorOrFn) as unknown as Not<E, T>;
+  public static not<E = Error, T = null>(error: E): Not<E, T>;
+  public static not<E = Error>(error: E): Not<E, any>;
+  public static not<E = Error, T = null>(error: E): Not<E, T> {
+    return new Result<T, E>(Result.NOT, error) as unknown as Not<E, T>;
   }
 
   /**
    * Creates a successful result.
+   * The data is stored as is, so `null`, `undefined` and functions are valid values.
+   * Without arguments, it is the same as `Result.void()`.
    * @template TData The type of the successful value.
-   * @param dataOrFn The value or a function that returns the value.
+   * @param data The successful value.
    * @returns A successful result containing the value.
    * @example
    * const result = Result.ok(42);
    * console.log(result.data); // 42
+   *
+   * const handler = Result.ok(() => console.log('clicked'));
+   * handler.data(); // clicked
+   */
+  public static ok(): Ok<void, any>;
+  public static ok<T, E = Error>(data: T): Ok<T, E>;
+  public static ok<T>(data: T): Ok<T, any>;
+  public static ok<T, E = Error>(...args: [] | [T]): Ok<T | void, E> {
+    if (args.length === 0) return Result.void();
+    return new Result<T, E>(Result.OK, args[0]) as unknown as Ok<T, E>;
+  }
+
+  /**
+   * Creates a successful result without a value.
+   * @template E The type of the error value.
+   * @returns A successful result whose data is `undefined`.
+   * @example
+   * function save(user: User): AnyResult<void, DatabaseError> {
+   *   database.insert(user);
+   *   return Result.void();
+   * }
+   */
+  public static void<E = Error>(): Ok<void, E> {
+    return new Result<void, E>(Result.OK, undefined) as unknown as Ok<void, E>;
+  }
+
+  /**
+   * Creates a successful result whose data is only computed when first accessed.
+   * @template TData The type of the successful value.
+   * @param getData A function that returns the successful value.
+   * @returns A successful result that evaluates `getData` once, on first access.
+   * @example
+   * const result = Result.lazy(() => expensiveComputation());
+   * console.log(result.data); // Computed now
+   * console.log(result.data); // Cached
+   */
+  public static lazy<T, E = Error>(getData: () => T): Ok<T, E> {
+    return new Result<T, E>(Result.OK, getData, true) as unknown as Ok<T, E>;
+  }
+
+  /**
+   * Creates a failed result whose error is only computed when first accessed.
+   * @template TError The type of the error value.
+   * @param getError A function that returns the error.
+   * @returns A failed result that evaluates `getError` once, on first access.
+   * @example
+   * const result = Result.lazyNot(() => new Error(buildDetailedMessage()));
    */
-  public static ok(): Ok<OkValue, any>;
-  public static ok<T, E = Error>(dataOrFn: T | (() => T)): Ok<T, E>;
-  public static ok<T>(dataOrFn: T | (() => T)): Ok<T, any>;
-  public static ok<T, E = Error>(
-    dataOrFn: T | (() => T) | string = Result.OK,
-  ): Ok<T | string, E> {
-    return new Result(dataOrFn as T | string) as Ok<T | string, E>;
+  public static lazyNot<E = Error, T = null>(getError: () => E): Not<E, T> {
+    return new Result<T, E>(Result.NOT, getError, true) as unknown as Not<E, T>;
   }
 
   /**
@@ -231,7 +1343,10 @@ export default class Result<T, E = Error> {
    * @template TData The type of the successful value.
    * @template TError The type of the error value.
    * @param promise The promise to resolve.
-   * @returns A promise that resolves to a result.
+   * @param options Pass `{ chain: true }` to get an `AsyncResult` that can be chained without awaiting,
+   * `catch` to only capture some error classes, `normalizeError` to convert the rejection reason into the error,
+   * and `timeout` or `signal` to stop waiting with a `TimeoutError` or an `AbortedError`.
+   * @returns A promise that resolves to a result, or an `AsyncResult` when chaining is requested.
    * @example
    * const result = await Result.resolve(fetchData());
    * if (Result.isOk(result)) {
@@ -239,21 +1354,136 @@ export default class Result<T, E = Error> {
    * } else {
    *   console.error(result.error);
    * }
+   *
+   * const name = await Result.resolve(fetchUser(), { chain: true })
+   *   .ok((user) => user.name)
+   *   .defaultValue('anonymous');
+   *
+   * const user = await Result.resolve(fetchUser(), { catch: [HttpError] }); // AnyResult<User, HttpError>
+   *
+   * const report = await Result.resolve(buildReport(), { timeout: 5_000 }); // AnyResult<Report, Error | CancellationError>
    */
-  public static async resolve<TData, TError = Error>(
+  public static resolve<TData, const TCatch extends ErrorClassList>(
     promise: Promise<TData>,
-  ): Promise<AnyResult<TData, TError>> {
-    try {
-      return new Result(await promise, null) as unknown as Ok<TData, TError>;
-    } catch (error) {
-      return new Result(null, error) as  unknown as Not<TError, TData>;
-    }
+    options: CancellableOptions<{ catch: TCatch; chain: true }>,
+  ): AsyncResult<TData, InstanceType<TCatch[number]> | CancellationError>;
+  public static resolve<TData, const TCatch extends ErrorClassList>(
+    promise: Promise<TData>,
+    options: CancellableOptions<{ catch: TCatch; chain?: false }>,
+  ): Promise<
+    AnyResult<TData, InstanceType<TCatch[number]> | CancellationError>
+  >;
+  public static resolve<TData, TError = Error>(
+    promise: Promise<TData>,
+    options: CancellableOptions<ResolveOptions<TError> & { chain: true }>,
+  ): AsyncResult<TData, TError | CancellationError>;
+  public static resolve<TData, TError = Error>(
+    promise: Promise<TData>,
+    options: CancellableOptions<ResolveOptions<TError>>,
+  ): Promise<AnyResult<TData, TError | CancellationError>>;
+  public static resolve<TData, const TCatch extends ErrorClassList>(
+    promise: Promise<TData>,
+    options: { catch: TCatch; chain: true },
+  ): AsyncResult<TData, InstanceType<TCatch[number]>>;
+  public static resolve<TData, const TCatch extends ErrorClassList>(
+    promise: Promise<TData>,
+    options: { catch: TCatch; chain?: false },
+  ): Promise<AnyResult<TData, InstanceType<TCatch[number]>>>;
+  public static resolve<TData, TError = Error>(
+    promise: Promise<TData>,
+    options: ResolveOptions<TError> & { chain: true },
+  ): AsyncResult<TData, TError>;
+  public static resolve<TData, TError = Error>(
+    promise: Promise<TData>,
+    options?: ResolveOptions<TError>,
+  ): Promise<AnyResult<TData, TError>>;
+  public static resolve<TData, TError = Error>(
+    promise: Promise<TData>,
+    options?: ResolveOptions<TError>,
+  ): Promise<AnyResult<TData, TError>> | AsyncResult<TData, TError> {
+    const resolved = cancellable(
+      () =>
+        Promise.resolve(promise).then(
+          (data) => Result.ok<TData, TError>(data),
+          (error) => Result.not<TError, TData>(capture(error, options)),
+        ),
+      options,
+    ) as Promise<AnyResult<TData, TError>>;
+
+    return options?.chain ? new AsyncResult(resolved) : resolved;
   }
 
+  /**
+   * Executes an async function and captures its resolved value or rejection.
+   * @template TData The type of the successful value.
+   * @template TError The type of the error value.
+   * @param callback The async function to execute, which receives a signal that is aborted on timeout or cancellation.
+   * @param options Pass `{ chain: true }` to get an `AsyncResult` that can be chained without awaiting,
+   * `catch` to only capture some error classes, `normalizeError` to convert the rejection reason into the error,
+   * and `timeout` or `signal` to abort the callback with a `TimeoutError` or an `AbortedError`.
+   * @returns A promise that resolves to a result, or an `AsyncResult` when chaining is requested.
+   * @example
+   * const user = await Result.tryCatchAsync(() => api.getUser(id), { chain: true })
+   *   .ok(async (user) => ({ ...user, roles: await api.getRoles(user.id) }))
+   *   .not((error) => ({ code: 'user_unavailable', cause: error }));
+   *
+   * const result = await Result.tryCatchAsync(() => api.getUser(id), {
+   *   normalizeError: toAppError,
+   * }); // AnyResult<User, AppError>
+   *
+   * const response = await Result.tryCatchAsync((signal) => fetch(url, { signal }), {
+   *   timeout: 5_000,
+   *   signal: request.signal,
+   * }); // AnyResult<Response, Error | CancellationError>
+   */
+  public static tryCatchAsync<TData, const TCatch extends ErrorClassList>(
+    callback: TryCatchAsyncFunction<TData>,
+    options: CancellableOptions<{ catch: TCatch; chain: true }>,
+  ): AsyncResult<TData, InstanceType<TCatch[number]> | CancellationError>;
+  public static tryCatchAsync<TData, const TCatch extends ErrorClassList>(
+    callback: TryCatchAsyncFunction<TData>,
+    options: CancellableOptions<{ catch: TCatch; chain?: false }>,
+  ): Promise<
+    AnyResult<TData, InstanceType<TCatch[number]> | CancellationError>
+  >;
+  public static tryCatchAsync<TData, TError = Error>(
+    callback: TryCatchAsyncFunction<TData>,
+    options: CancellableOptions<ResolveOptions<TError> & { chain: true }>,
+  ): AsyncResult<TData, TError | CancellationError>;
   public static tryCatchAsync<TData, TError = Error>(
-    callback: TryCatchFunction<Promise<TData>>,
-  ): Promise<AnyResult<TData, TError>> {
-    return Result.resolve<TData, TError>(callback());
+    callback: TryCatchAsyncFunction<TData>,
+    options: CancellableOptions<ResolveOptions<TError>>,
+  ): Promise<AnyResult<TData, TError | CancellationError>>;
+  public static tryCatchAsync<TData, const TCatch extends ErrorClassList>(
+    callback: TryCatchAsyncFunction<TData>,
+    options: { catch: TCatch; chain: true },
+  ): AsyncResult<TData, InstanceType<TCatch[number]>>;
+  public static tryCatchAsync<TData, const TCatch extends ErrorClassList>(
+    callback: TryCatchAsyncFunction<TData>,
+    options: { catch: TCatch; chain?: false },
+  ): Promise<AnyResult<TData, InstanceType<TCatch[number]>>>;
+  public static tryCatchAsync<TData, TError = Error>(
+    callback: TryCatchAsyncFunction<TData>,
+    options: ResolveOptions<TError> & { chain: true },
+  ): AsyncResult<TData, TError>;
+  public static tryCatchAsync<TData, TError = Error>(
+    callback: TryCatchAsyncFunction<TData>,
+    options?: ResolveOptions<TError>,
+  ): Promise<AnyResult<TData, TError>>;
+  public static tryCatchAsync<TData, TError = Error>(
+    callback: TryCatchAsyncFunction<TData>,
+    options?: ResolveOptions<TError>,
+  ): Promise<AnyResult<TData, TError>> | AsyncResult<TData, TError> {
+    const resolved = cancellable(
+      (signal) =>
+        callback(signal).then(
+          (data) => Result.ok<TData, TError>(data),
+          (error) => Result.not<TError, TData>(capture(error, options)),
+        ),
+      options,
+    ) as Promise<AnyResult<TData, TError>>;
+
+    return options?.chain ? new AsyncResult(resolved) : resolved;
   }
 
   /**
@@ -261,6 +1491,8 @@ export default class Result<T, E = Error> {
    * @template TData The type of the successful value.
    * @template TError The type of the error value.
    * @param callback The function to execute.
+   * @param options A function that converts the thrown value into the error, which also infers its type,
+   * or capture options with a `catch` list of error classes; any other exception is rethrown.
    * @returns A result containing the function's return value or error.
    * @example
    * const result = Result.tryCatch(() => JSON.parse('{"key": "value"}'));
@@ -269,331 +1501,2194 @@ export default class Result<T, E = Error> {
    * } else {
    *   console.error(result.error);
    * }
+   *
+   * const parsed = Result.tryCatch(() => JSON.parse(input), toError); // AnyResult<any, Error>
+   *
+   * const order = Result.tryCatch(() => placeOrder(cart), {
+   *   catch: [HttpError, ValidationError],
+   * }); // AnyResult<Order, HttpError | ValidationError>, a TypeError is rethrown
    */
   public static tryCatch<TData, TError = Error>(
     callback: TryCatchFunction<TData>,
-  ): Result<TData, TError> {
+    normalizeError?: ErrorNormalizer<TError>,
+  ): AnyResult<TData, TError>;
+  public static tryCatch<TData, const TCatch extends ErrorClassList>(
+    callback: TryCatchFunction<TData>,
+    options: { catch: TCatch },
+  ): AnyResult<TData, InstanceType<TCatch[number]>>;
+  public static tryCatch<TData, TError = Error>(
+    callback: TryCatchFunction<TData>,
+    options: CaptureOptions<TError>,
+  ): AnyResult<TData, TError>;
+  public static tryCatch<TData, TError = Error>(
+    callback: TryCatchFunction<TData>,
+    options?: ErrorNormalizer<TError> | CaptureOptions<TError>,
+  ): AnyResult<TData, TError> {
     try {
-      return new Result(callback(), null as TError);
+      return Result.ok(callback());
     } catch (error) {
-      return new Result(null as TData, error as TError);
+      return Result.not(capture(error, toCaptureOptions(options)));
     }
   }
 
-  public static match<TError, TData, TNReturn>(
-    action: NotValue,
-    result: Promise<AnyResult<TData, TError>>,
-    handler: ResultMatchHandler<TError, TNReturn>,
-  ): Promise<TNReturn | null>;
-  public static match<TData, TError, TOReturn>(
-    action: OkValue,
-    result: Promise<AnyResult<TData, TError>>,
-    handler: ResultMatchHandler<TData, TOReturn>,
-  ): Promise<TOReturn | null>;
-  public static match<TError, TData, TNReturn>(
-    action: NotValue,
-    result: AnyResult<TData, TError>,
-    handler: ResultMatchHandler<TError, TNReturn>,
-  ): TNReturn | null;
-  public static match<TData, TError, TOReturn>(
-    action: OkValue,
-    result: AnyResult<TData, TError>,
-    handler: ResultMatchHandler<TData, TOReturn>,
-  ): TOReturn | null;
   /**
-   * Matches a result against handlers for success and failure.
-   * @template TData The type of the successful value.
-   * @template TError The type of the error value.
-   * @template TSReturn The return type for the success handler.
-   * @template TFReturn The return type for the failure handler.
-   * @param result The result to match.
-   * @param handlers An object containing success and failure handlers.
-   * @returns The return value of the matched handler.
+   * Configures how every result captures exceptions.
+   * A per-call normalizer or `catch` list always takes precedence over the configured one.
+   * Exceptions that are not captured are rethrown as they are (from promises, as a rejection).
+   * Since the configuration is global, declare the matching error type explicitly (e.g. `Result.tryCatch<Data, AppError>(...)`).
+   * @param options The options to change; pass `undefined` to restore a default.
+   * @returns The previous configuration, so it can be restored later.
    * @example
-   * // Example 1: Matching a synchronous result
-   * const result = Result.ok(42);
-   * const message = Result.match(result, {
-   *   ok: (data) => `Success: ${data}`,
-   *   not: (error) => `Error: ${error.message}`,
-   * });
-   * console.log(message); // Success: 42
+   * Result.configure({ normalizeError: toError });
    *
-   * // Example 2: Matching an asynchronous result
-   * const asyncResult = Result.resolve(Promise.resolve(42));
-   * const asyncMessage = await Result.match(asyncResult, {
-   *   ok: (data) => `Success: ${data}`,
-   *   not: (error) => `Error: ${error.message}`,
+   * const result = Result.tryCatch(() => {
+   *   throw 'boom';
    * });
-   * console.log(asyncMessage); // Success: 42
-   *
-   * // Example 3: Using action-based matching
-   * const result = Result.ok(42);
-   * const successMessage = Result.match(Result.OK, result, (data) => `Success: ${data}`);
-   * console.log(successMessage); // Success: 42
+   * console.log(result.error); // Error: boom, with 'boom' as its cause
    *
-   * const failureResult = Result.not(new Error('Something went wrong'));
-   * const errorMessage = Result.match(Result.NOT, failureResult, (error) => `Error: ${error.message}`);
-   * console.log(errorMessage); // Error: Something went wrong
-   *
-   * // Example 4: Matching with partial handlers
-   * const partialMessage = Result.match(result, {
-   *   ok: (data) => `Success: ${data}`,
+   * // Let bugs crash instead of becoming ordinary failures
+   * Result.configure({
+   *   captureExceptions: (error) =>
+   *     !(error instanceof TypeError || error instanceof ReferenceError),
    * });
-   * console.log(partialMessage); // Success: 42
    */
-  public static match<TError, TData, TOReturn, TNReturn>(
-    result: Promise<AnyResult<TData, TError>>,
-    handlers: ResultMatchHandlers<TData, TError, TOReturn, TNReturn>,
-  ): Promise<TOReturn | TNReturn>;
-  public static match<TError, TData, TOReturn, TNReturn>(
-    result: AnyResult<TData, TError>,
-    handlers: ResultMatchHandlers<TData, TError, TOReturn, TNReturn>,
-  ): TOReturn | TNReturn;
-  public static match<TError, TData, TOReturn, TNReturn>(
-    result: Promise<AnyResult<TData, TError>>,
-    handlers: Pick<
-      ResultMatchHandlers<TData, TError, TOReturn, TNReturn>,
-      'ok'
-    >,
-  ): Promise<TOReturn | TNReturn | null>;
-  public static match<TError, TData, TOReturn, TNReturn>(
-    result: AnyResult<TData, TError>,
-    handlers: Pick<
-      ResultMatchHandlers<TData, TError, TOReturn, TNReturn>,
-      'ok'
-    >,
-  ): TOReturn | TNReturn | null;
-  public static match(...args: any[]): any | Promise<any> {
-    if (args.length === 2) {
-      const [result, handlers] = args as [
-        Ok<any> | Not<any> | Promise<Ok<any> | Not<any>>,
-        ResultMatchHandlers,
-      ];
+  public static configure(options: ResultConfig): ResultConfig {
+    const previous = { ...config };
+    Object.assign(config, options);
+    return previous;
+  }
 
-      if (result instanceof Promise)
-        return result
-          .then((awaitedResult) => {
-            if (Result.isOk(awaitedResult))
-              return handlers.ok(awaitedResult.data);
-            return null;
-          })
-          .catch((reason) => (handlers.not ? handlers.not(reason) : null));
+  /**
+   * Runs a generator where each `yield*` unwraps a result, stopping at the first failure.
+   * The returned result contains the generator's return value or the first failure yielded.
+   * @template TYield The failures that can be yielded by the generator.
+   * @template TReturn The type of the successful value.
+   * @param generator A generator function that uses `yield*` on results.
+   * @returns The returned value as a success or the first yielded failure.
+   * @example
+   * const result = Result.gen(function* () {
+   *   const user = yield* login(credentials); // AnyResult<User, AuthError>
+   *   const token = yield* completeMfa(user, code); // AnyResult<string, MfaError>
+   *   return { user, token };
+   * }); // AnyResult<{ user: User; token: string }, AuthError | MfaError>
+   */
+  public static gen<TYield extends Not<any, any>, TReturn>(
+    generator: () => Generator<TYield, TReturn, any>,
+  ): AnyResult<TReturn, ResultGenError<TYield>> {
+    const iterator = generator();
+    let step = iterator.next();
 
-      if (Result.isOk(result)) return handlers.ok(result.data);
+    while (!step.done) {
+      if (Result.notOk(step.value)) {
+        iterator.return(undefined as TReturn);
+        return step.value as Not<ResultGenError<TYield>, TReturn>;
+      }
 
-      return handlers.not ? handlers.not((result as any).error) : null;
+      step = iterator.next((step.value as AnyResult<any, any>).data);
     }
 
-    const [action, result, handler] = args as [
-      MatchTypes,
-      Result<any> | Promise<Result<any>>,
-      ResultMatchHandler<any>,
-    ];
-
-    switch (action) {
-      case Result.OK:
-        return handleSuccess(handler, result) as any;
-      case Result.NOT:
-        return handleFailure(handler, result) as any;
-      default:
-        throw new Error(
-          `The match type "${action}" is not valid!\n` +
-            'Avoid using plain strings (prefer `Result.OK` or `Result.NOT`).',
-        );
-    }
+    return Result.ok(step.value);
   }
 
-  #dataValue!: T;
-  #errorValue!: E;
-  #dataEvaluated = false;
-  #errorEvaluated = false;
+  /**
+   * Async version of `Result.gen`. The generator can be async and use
+   * `yield* await promise` for a `Promise<AnyResult>` or `yield* asyncResult` for an `AsyncResult`.
+   * @template TYield The failures that can be yielded by the generator.
+   * @template TReturn The type of the successful value.
+   * @param generator A generator function (sync or async) that uses `yield*` on results.
+   * @returns An `AsyncResult` with the returned value or the first yielded failure.
+   * @example
+   * const result = await Result.genAsync(async function* () {
+   *   const user = yield* await authService.login(email, password);
+   *   const token = yield* AsyncResult.from(authService.completeMfa(user.id, code));
+   *   yield* authService.checkPermission(user, 'admin');
+   *   return token;
+   * });
+   */
+  public static genAsync<TYield extends Not<any, any>, TReturn>(
+    generator: () =>
+      AsyncGenerator<TYield, TReturn, any> | Generator<TYield, TReturn, any>,
+  ): AsyncResult<TReturn, ResultGenError<TYield>> {
+    const run = async (): Promise<
+      AnyResult<TReturn, ResultGenError<TYield>>
+    > => {
+      const iterator = generator();
+      let step = await iterator.next();
 
-  constructor(
-    private readonly dataOrFn: T | null | (() => T),
-    private readonly errorOrFn: E | null | (() => E) = null,
-  ) {}
+      while (!step.done) {
+        const yielded = (await step.value) as AnyResult<any, any>;
 
-  public get data(): T | null {
-    if (this.dataOrFn === null) return null;
-    if (!this.#dataEvaluated) {
-      this.#dataValue =
-        typeof this.dataOrFn === 'function'
-          ? (this.dataOrFn as Function)()
-          : this.dataOrFn;
-      this.#dataEvaluated = true;
-    }
-    return this.#dataValue ?? null;
-  }
+        if (Result.notOk(yielded)) {
+          await iterator.return(undefined as TReturn);
+          return yielded as Not<ResultGenError<TYield>, TReturn>;
+        }
 
-  public get error(): E | null {
-    if (this.errorOrFn === null) return null;
-    if (!this.#errorEvaluated) {
-      this.#errorValue =
-        typeof this.errorOrFn === 'function'
-          ? (this.errorOrFn as Function)()
-          : this.errorOrFn;
-      this.#errorEvaluated = true;
-    }
-    return this.#errorValue ?? null;
+        step = await iterator.next(yielded.data);
+      }
+
+      return Result.ok(step.value);
+    };
+
+    return new AsyncResult(run());
   }
 
   /**
-   * Provides a default value if the result is a failure.
-   * @template TValue The type of the default value.
-   * @param value The default value or a function that returns it.
-   * @returns The successful value or the default value.
+   * Combines results into a single result containing all values, stopping at the first failure.
+   * If any item is a promise, an `AsyncResult` is returned instead.
+   * @template TResults The tuple or array of results to combine.
+   * @param results The results (or promises of results) to combine.
+   * @returns A success with the values in the same order or the first failure.
    * @example
-   * const result = Result.not(new Error('Missing value'));
-   * const value = result.defaultValue(42);
-   * console.log(value); // 42
+   * const result = Result.all([findUser(id), findSettings(id), Result.ok(42)]);
+   * // AnyResult<[User, Settings, number], UserError | SettingsError>
+   *
+   * const asyncResult = await Result.all([fetchUser(id), Result.ok(42)]);
+   * // AnyResult<[User, number], HttpError>
    */
-  public defaultValue<TValue = T>(
-    value: TValue | ((data: T) => TValue),
-  ): TValue | T {
-    const getDefaultValue = () =>
-      typeof value === 'function' ? (value as Function)(this.data) : value;
+  public static all<const TResults extends readonly AnyResult<any, any>[]>(
+    results: TResults,
+  ): AnyResult<ResultTupleData<TResults>, ResultError<TResults[number]>>;
+  public static all<const TResults extends readonly MaybePromiseResult[]>(
+    results: TResults,
+  ): AsyncResult<ResultTupleData<TResults>, ResultError<TResults[number]>>;
+  public static all(
+    results: readonly MaybePromiseResult[],
+  ): AnyResult<any[], any> | AsyncResult<any[], any> {
+    if (results.some(isPromiseLike))
+      return new AsyncResult(
+        Promise.all(results.map((result) => AsyncResult.from(result))).then(
+          (awaitedResults) => Result.all(awaitedResults),
+        ),
+      );
 
-    return Result.isOk(this)
-      ? (this.data as TValue) ?? getDefaultValue()
-      : getDefaultValue();
+    const data: any[] = [];
+    for (const result of results as AnyResult<any, any>[]) {
+      if (Result.notOk(result)) return result;
+      data.push(result.data);
+    }
+
+    return Result.ok(data);
   }
 
   /**
-   * Extracts the value of the result, optionally transforming it if it is successful.
-   * @template TValue The type of the transformed value.
-   * @param mutator A function that transforms the value (optional).
-   * @returns The transformed value, the original value, or `null` if the result is a failure.
+   * Combines a record of results into a single result containing an object with all values,
+   * stopping at the first failure. If any value is a promise, an `AsyncResult` is returned instead.
+   * @template TResults The record of results to combine.
+   * @param results The record of results (or promises of results) to combine.
+   * @returns A success with an object of values or the first failure.
    * @example
-   * const result = Result.ok(42);
-   * const transformed = result.value((data) => data * 2);
-   * console.log(transformed); // 84
+   * const result = Result.allObject({ user: findUser(id), settings: findSettings(id) });
+   * // AnyResult<{ user: User; settings: Settings }, UserError | SettingsError>
+   */
+  public static allObject<TResults extends Record<string, AnyResult<any, any>>>(
+    results: TResults,
+  ): AnyResult<
+    ResultRecordData<TResults>,
+    ResultError<TResults[keyof TResults]>
+  >;
+  public static allObject<TResults extends Record<string, MaybePromiseResult>>(
+    results: TResults,
+  ): AsyncResult<
+    ResultRecordData<TResults>,
+    ResultError<TResults[keyof TResults]>
+  >;
+  public static allObject(
+    results: Record<string, MaybePromiseResult>,
+  ):
+    | AnyResult<Record<string, any>, any>
+    | AsyncResult<Record<string, any>, any> {
+    const keys = Object.keys(results);
+    const combined = Result.all(keys.map((key) => results[key])) as
+      AnyResult<any[], any> | AsyncResult<any[], any>;
+
+    const toObject = (values: any[]) =>
+      Object.fromEntries(keys.map((key, index) => [key, values[index]]));
+
+    return combined.to(toObject);
+  }
+
+  /**
+   * Returns the first successful result, or a failure with all errors if every result failed.
+   * If any item is a promise, an `AsyncResult` is returned that settles with the first success to resolve.
+   * @template TResults The tuple or array of results to check.
+   * @param results The results (or promises of results) to check.
+   * @returns The first success or a failure containing every error in the same order.
+   * @example
+   * const result = Result.any([findInMemory(key), findInRedis(key)]);
+   * // AnyResult<Value, [MemoryError, RedisError]>
+   */
+  public static any<const TResults extends readonly AnyResult<any, any>[]>(
+    results: TResults,
+  ): AnyResult<ResultData<TResults[number]>, ResultTupleError<TResults>>;
+  public static any<const TResults extends readonly MaybePromiseResult[]>(
+    results: TResults,
+  ): AsyncResult<ResultData<TResults[number]>, ResultTupleError<TResults>>;
+  public static any(
+    results: readonly MaybePromiseResult[],
+  ): AnyResult<any, any[]> | AsyncResult<any, any[]> {
+    if (results.some(isPromiseLike))
+      return new AsyncResult(
+        new Promise<AnyResult<any, any[]>>((resolve, reject) => {
+          const errors: any[] = new Array(results.length);
+          let pending = results.length;
+
+          results.forEach((result, index) => {
+            AsyncResult.from(result).then((awaitedResult) => {
+              if (Result.isOk(awaitedResult)) return resolve(awaitedResult);
+
+              errors[index] = awaitedResult.error;
+              if (--pending === 0) resolve(Result.not(errors));
+            }, reject);
+          });
+        }),
+      );
+
+    const errors: any[] = [];
+    for (const result of results as AnyResult<any, any>[]) {
+      if (Result.isOk(result)) return result;
+      errors.push(result.error);
+    }
+
+    return Result.not(errors);
+  }
+
+  /**
+   * Starts every operation and returns the first result to settle, successful or not.
+   * At least one operation is required, since an empty race would never settle.
+   * Each operation receives a signal that is aborted once the race is settled, so the others can stop their work.
+   * Rejections and thrown errors (following the capture policy) settle the race as failures.
+   * @template TOperations The tuple or array of operations to race.
+   * @param operations The functions that return a result (or a promise of a result).
+   * @param options `timeout` or `signal` to settle the race with a `TimeoutError` or an `AbortedError`.
+   * @returns An `AsyncResult` with the first result to settle.
+   * @example
+   * const price = await Result.race(
+   *   [(signal) => fetchPrice(primaryUrl, signal), (signal) => fetchPrice(mirrorUrl, signal)],
+   *   { timeout: 2_000 },
+   * ); // AnyResult<Price, HttpError | CancellationError>
+   */
+  public static race<
+    const TOperations extends readonly [
+      (signal: AbortSignal) => MaybePromiseResult,
+      ...((signal: AbortSignal) => MaybePromiseResult)[],
+    ],
+  >(
+    operations: TOperations,
+    options: CancellableOptions,
+  ): AsyncResult<
+    ResultData<ReturnType<TOperations[number]>>,
+    ResultError<ReturnType<TOperations[number]>> | CancellationError
+  >;
+  public static race<
+    const TOperations extends readonly [
+      (signal: AbortSignal) => MaybePromiseResult,
+      ...((signal: AbortSignal) => MaybePromiseResult)[],
+    ],
+  >(
+    operations: TOperations,
+    options?: CancelOptions,
+  ): AsyncResult<
+    ResultData<ReturnType<TOperations[number]>>,
+    ResultError<ReturnType<TOperations[number]>>
+  >;
+  public static race(
+    operations: readonly ((signal: AbortSignal) => MaybePromiseResult)[],
+    options?: CancelOptions,
+  ): AsyncResult<any, any> {
+    return new AsyncResult(
+      cancellable((signal) => {
+        const controller = new AbortController();
+        signal.addEventListener(
+          'abort',
+          () => controller.abort(signal.reason),
+          { once: true },
+        );
+
+        return new Promise<AnyResult<any, any>>((resolve, reject) => {
+          for (const operation of operations)
+            new AsyncResult(
+              Promise.resolve(controller.signal).then(operation),
+            ).then(resolve, reject);
+        }).finally(() => controller.abort());
+      }, options),
+    );
+  }
+
+  /**
+   * Runs every validation and accumulates all errors instead of stopping at the first failure.
+   * Accepts a record or a tuple of results; if any item is a promise, an `AsyncResult` is returned instead.
+   * @template TResults The record or tuple of results to validate.
+   * @param results The results (or promises of results) to validate.
+   * @returns A success with all values or a failure with a non-empty array of every error.
+   * @example
+   * const result = Result.validate({
+   *   username: FormValidator.validateUsername(form.username),
+   *   email: FormValidator.validateEmail(form.email),
+   * });
+   * // Validated<{ username: string; email: string }, ValidationError>
    *
-   * const failureResult = Result.not(new Error('Something went wrong'));
-   * const fallback = failureResult.value(() => 0);
-   * console.log(fallback); // null
+   * if (Result.notOk(result)) {
+   *   result.error.forEach((error) => console.log(error.message));
+   * }
    */
-  public value<TValue>(mutator: (data: T) => TValue): TValue;
-  public value(): T;
-  public value<TValue = T>(mutator?: (data: T) => TValue): TValue | T | null {
-    return Result.isOk(this) && mutator ? mutator(this.data as T) : this.data;
+  public static validate<const TResults extends readonly AnyResult<any, any>[]>(
+    results: TResults,
+  ): Validated<ResultTupleData<TResults>, ResultError<TResults[number]>>;
+  public static validate<const TResults extends readonly MaybePromiseResult[]>(
+    results: TResults,
+  ): AsyncResult<
+    ResultTupleData<TResults>,
+    NonEmptyArray<ResultError<TResults[number]>>
+  >;
+  public static validate<TResults extends Record<string, AnyResult<any, any>>>(
+    results: TResults,
+  ): Validated<
+    ResultRecordData<TResults>,
+    ResultError<TResults[keyof TResults]>
+  >;
+  public static validate<TResults extends Record<string, MaybePromiseResult>>(
+    results: TResults,
+  ): AsyncResult<
+    ResultRecordData<TResults>,
+    NonEmptyArray<ResultError<TResults[keyof TResults]>>
+  >;
+  public static validate(
+    results: Record<string, MaybePromiseResult> | readonly MaybePromiseResult[],
+  ): AnyResult<any, any> | AsyncResult<any, any> {
+    return validateResults(results, false);
   }
 
   /**
-   * Transforms the successful value of the result.
-   * @template TReturn The type of the transformed value.
-   * @param mutator A function that transforms the value.
-   * @returns A new result containing the transformed value.
+   * Same as `Result.validate`, but the errors are keyed by the field that failed.
+   * @template TResults The record of results to validate.
+   * @param results The record of results (or promises of results) to validate.
+   * @returns A success with all values or a failure with the error of each failed field.
    * @example
-   * const result = Result.ok(42).to((data) => data * 2);
-   * console.log(result.data); // 84
+   * const result = Result.validateFields({
+   *   username: FormValidator.validateUsername(form.username),
+   *   email: FormValidator.validateEmail(form.email),
+   * });
+   *
+   * if (Result.notOk(result)) {
+   *   console.log(result.error.email?.message);
+   * }
    */
-  public to<TReturn>(mutator: (data: T) => TReturn): AnyResult<TReturn, E> {
-    if (Result.notOk(this)) return this as unknown as AnyResult<TReturn, E>;
-    return Result.ok(mutator(this.data as T));
+  public static validateFields<
+    TResults extends Record<string, AnyResult<any, any>>,
+  >(
+    results: TResults,
+  ): AnyResult<ResultRecordData<TResults>, ResultRecordError<TResults>>;
+  public static validateFields<
+    TResults extends Record<string, MaybePromiseResult>,
+  >(
+    results: TResults,
+  ): AsyncResult<ResultRecordData<TResults>, ResultRecordError<TResults>>;
+  public static validateFields(
+    results: Record<string, MaybePromiseResult>,
+  ): AnyResult<any, any> | AsyncResult<any, any> {
+    return validateResults(results, true);
   }
 
-  public or<TReturn>(callback: (error: E) => TReturn): T | TReturn {
-    return Result.isOk(this) ? (this.data as T) : callback(this.error as E);
+  /**
+   * Runs a result-returning operation again while it fails, waiting between attempts.
+   * Failures and rejections (following the capture policy) are retried, successes are returned right away.
+   * Once it gives up, the failure is a `RetryError` with the last error as `cause` and every failed attempt in `history`.
+   * @template TData The type of the successful value.
+   * @template TError The type of the error of each attempt.
+   * @param operation A function that receives the number of the attempt and returns a result or a promise of it.
+   * @param options The number of attempts, the backoff strategy and the hooks.
+   * @returns An `AsyncResult` with the first successful value or the `RetryError`.
+   * @example
+   * const user = await Result.retry(() => fetchUser(id), {
+   *   attempts: 5,
+   *   backoff: 'exponential',
+   *   jitter: true,
+   *   maxDelay: 5_000,
+   *   shouldRetry: (error) => error.retryable,
+   *   onRetry: ({ attempt, error, delay }) =>
+   *     console.warn(`Attempt ${attempt} failed, retrying in ${delay}ms`, error),
+   * });
+   *
+   * if (Result.notOk(user)) console.error(user.error.history.length, user.error.cause);
+   */
+  public static retry<TData, TError = Error>(
+    operation: (
+      attempt: number,
+    ) => AnyResult<TData, TError> | PromiseLike<AnyResult<TData, TError>>,
+    options: RetryOptions<TError> = {},
+  ): AsyncResult<TData, RetryFailure<TError>> {
+    const {
+      attempts = 3,
+      shouldRetry = () => true,
+      onRetry,
+      sleep: wait = sleep,
+      clock = Date.now,
+    } = options;
+    const history: RetryAttempt<TError>[] = [];
+
+    const run = async (
+      attempt: number,
+    ): Promise<AnyResult<TData, RetryFailure<TError>>> => {
+      const result = await new AsyncResult(
+        Promise.resolve(attempt).then(operation),
+      );
+
+      if (Result.isOk(result))
+        return result as unknown as AnyResult<TData, RetryFailure<TError>>;
+
+      const error = result.error as TError;
+      const isLast = attempt >= attempts || !shouldRetry(error, attempt);
+      const failed: RetryAttempt<TError> = {
+        attempt,
+        error,
+        timestamp: clock(),
+        delay: isLast ? 0 : retryDelay(attempt, options),
+      };
+      history.push(failed);
+
+      if (isLast)
+        return Result.not(
+          new RetryError(
+            { history },
+            { message: `Failed after ${attempt} attempt(s)`, cause: error },
+          ) as RetryFailure<TError>,
+        );
+
+      onRetry?.(failed);
+      await wait(failed.delay);
+      return run(attempt + 1);
+    };
+
+    return new AsyncResult(run(1));
   }
 
   /**
-   * Transforms the successful value of the result if it is successful.
-   * @template TReturn The type of the transformed value.
-   * @template TReturn The type of the new successful value.
-   * @param callback A function that transforms the successful value.
-   * @returns A new result containing the transformed value or the original result if it is a failure.
+   * Deduplicates concurrent calls: callers with the same key share the same in-flight promise.
+   * The key is released as soon as the call settles, whether it succeeded, failed or rejected.
+   * @template TArgs The parameters of the function.
+   * @template TData The type of the successful value.
+   * @template TError The type of the error value.
+   * @param operation The async function to deduplicate.
+   * @param getKey Returns the key of a call. Defaults to the JSON of the arguments.
+   * @returns A function with the same parameters and result, with a `forget()` helper.
    * @example
-   * // Example 1: Transforming a successful result
-   * const result = Result.ok(42);
-   * const transformed = result.ok((data) => data * 2);
-   * console.log(transformed.data); // 84
+   * const getUser = Result.singleFlight((id: string) => api.getUser(id), (id) => `user:${id}`);
    *
-   * // Example 2: Handling a failure result
-   * const failureResult = Result.not(new Error('Something went wrong'));
-   * const unchanged = failureResult.ok((data) => data * 2);
-   * console.log(unchanged.error); // Error: Something went wrong
+   * // A single request to the API, shared by both callers
+   * const [first, second] = await Promise.all([getUser('1'), getUser('1')]);
+   */
+  public static singleFlight<TArgs extends unknown[], TData, TError = Error>(
+    operation: (...args: TArgs) => PromiseLike<AnyResult<TData, TError>>,
+    getKey: NoInfer<(...args: TArgs) => string> = (...args) =>
+      JSON.stringify(args),
+  ): SingleFlight<TArgs, TData, TError> {
+    const inFlight = new Map<string, Promise<AnyResult<TData, TError>>>();
+
+    const call = (...args: TArgs) => {
+      const key = getKey(...args);
+      const shared = inFlight.get(key);
+      if (shared) return shared;
+
+      const pending = Promise.resolve(args).then((args) => operation(...args));
+      const release = () => {
+        if (inFlight.get(key) === pending) inFlight.delete(key);
+      };
+
+      inFlight.set(key, pending);
+      pending.then(release, release);
+      return pending;
+    };
+
+    return Object.assign(call, {
+      forget: (key: string) => {
+        inFlight.delete(key);
+      },
+    });
+  }
+
+  /**
+   * Memoizes a result-returning function. Only successful results are cached unless `cacheErrors` is set.
+   * An expired result is still returned during `staleWhileRevalidate` while a single background call refreshes it;
+   * a failed refresh keeps the stale result until it runs out.
+   * @template TArgs The parameters of the function.
+   * @template TData The type of the successful value.
+   * @template TError The type of the error value.
+   * @param operation The function to memoize.
+   * @param options The expiration times, the key of each call and the store.
+   * @returns A function with the same parameters that resolves to a result, with an `invalidate()` helper.
+   * @example
+   * const getUser = Result.cached((id: string) => api.getUser(id), {
+   *   ttl: 60_000,
+   *   staleWhileRevalidate: 300_000,
+   *   cacheErrors: { ttl: 5_000 },
+   *   key: (id) => `user:${id}`,
+   *   store: new LruStore(500),
+   * });
    *
-   * // Example 3: Throwing an error during transformation
-   * const resultWithError = Result.ok(42).ok((data) => {
-   *   if (data > 40) throw new Error('Value too high');
-   *   return data;
+   * const user = await getUser('1'); // AnyResult<User, ApiError>
+   * await getUser.invalidate('user:1');
+   */
+  public static cached<TArgs extends unknown[], TData, TError = Error>(
+    operation: (
+      ...args: TArgs
+    ) => AnyResult<TData, TError> | PromiseLike<AnyResult<TData, TError>>,
+    options: CachedOptions<TArgs, TData, TError>,
+  ): Cached<TArgs, TData, TError> {
+    const {
+      ttl,
+      staleWhileRevalidate = 0,
+      cacheErrors = false,
+      key: getKey = (...args: TArgs) => JSON.stringify(args),
+      store = new LruStore<CacheEntry<TData, TError>>(),
+      clock = Date.now,
+    } = options;
+    const refreshing = new Set<string>();
+
+    const load = async (key: string, args: TArgs, isRefresh: boolean) => {
+      const result = await new AsyncResult<TData, TError>(
+        Promise.resolve(args).then((args) => operation(...args)),
+      );
+      const now = clock();
+
+      if (Result.isOk(result))
+        await store.set(key, {
+          result,
+          expiresAt: now + ttl,
+          staleUntil: now + ttl + staleWhileRevalidate,
+        });
+      else if (cacheErrors && !isRefresh)
+        await store.set(key, {
+          result,
+          expiresAt: now + cacheErrors.ttl,
+          staleUntil: now + cacheErrors.ttl,
+        });
+
+      return result;
+    };
+
+    const call = (...args: TArgs) => {
+      const key = getKey(...args);
+
+      return new AsyncResult<TData, TError>(
+        Promise.resolve(store.get(key)).then((entry) => {
+          const now = clock();
+          if (entry && now < entry.expiresAt) return entry.result;
+          if (!entry || now >= entry.staleUntil) return load(key, args, false);
+
+          if (!refreshing.has(key)) {
+            const done = () => refreshing.delete(key);
+            refreshing.add(key);
+            load(key, args, true).then(done, done);
+          }
+
+          return entry.result;
+        }),
+      );
+    };
+
+    return Object.assign(call, {
+      invalidate: async (key: string) => {
+        await store.delete(key);
+      },
+    });
+  }
+
+  /**
+   * Guards a result-returning function with a circuit breaker.
+   * After `failureThreshold` consecutive failures the circuit opens, and calls fail with a `CircuitOpenError`
+   * without calling the function. After `resetTimeout`, trial calls decide whether it closes or opens again.
+   * Rejections and thrown errors count as failures, including the ones the capture policy rethrows.
+   * @template TArgs The parameters of the function.
+   * @template TData The type of the successful value.
+   * @template TError The type of the error value.
+   * @param operation The function to guard.
+   * @param options The thresholds, the key of each call and the state-change hook.
+   * @returns A function with the same parameters that resolves to a result, with `state()` and `reset()` helpers.
+   * @example
+   * const getUser = Result.circuitBreaker((id: string) => api.getUser(id), {
+   *   failureThreshold: 3,
+   *   resetTimeout: 30_000,
+   *   isFailure: (error) => error.status >= 500,
+   *   onStateChange: ({ from, to }) => console.log(`Users API circuit: ${from} -> ${to}`),
    * });
-   * console.log(resultWithError.error); // Error: Value too high
+   *
+   * const user = await getUser('1').orElse((error) =>
+   *   CircuitOpenError.is(error) ? readUserFromCache('1') : Result.not(error),
+   * );
    */
-  public ok<TError = Error>(
-    callback: (data: T, result: Ok<T>) => void | never | undefined,
-  ): AnyResult<T, E | TError>;
-  public ok<TReturn, TError = Error>(
-    callback: (data: T, result: Ok<T>) => TReturn,
-  ): AnyResult<TReturn, E | TError>;
-  public ok<TReturn, TError = Error>(
-    callback: (data: T, result: Ok<T>) => TReturn,
-  ): AnyResult<TReturn, E | TError> {
-    try {
-      if (Result.isOk(this)) {
-        const result = callback(this.data as NonNullable<T>, this as Ok<T>);
-        // If callback returns undefined/void, preserve the original value
-        const finalValue = result === undefined ? this.data : result;
-        return Result.ok(finalValue) as unknown as AnyResult<
-          NonNullable<TReturn>,
-          E | TError
-        >;
+  public static circuitBreaker<TArgs extends unknown[], TData, TError = Error>(
+    operation: (
+      ...args: TArgs
+    ) => AnyResult<TData, TError> | PromiseLike<AnyResult<TData, TError>>,
+    options: CircuitBreakerOptions<TArgs, TError> = {},
+  ): CircuitBreaker<TArgs, TData, TError> {
+    const {
+      failureThreshold = 5,
+      resetTimeout = 30_000,
+      halfOpenMaxCalls = 1,
+      isFailure = () => true,
+      key: getKey = () => 'default',
+      onStateChange,
+      clock = Date.now,
+    } = options;
+    const circuits = new Map<
+      string,
+      {
+        state: CircuitState;
+        failures: number;
+        openedAt: number;
+        trials: number;
       }
-      return this as unknown as AnyResult<NonNullable<TReturn>, E | TError>;
-    } catch (error) {
-      return Result.not(error as TError) as unknown as AnyResult<
-        NonNullable<TReturn>,
-        E | TError
-      >;
-    }
+    >();
+
+    const getCircuit = (key: string) => {
+      let circuit = circuits.get(key);
+      if (!circuit) {
+        circuit = { state: 'closed', failures: 0, openedAt: 0, trials: 0 };
+        circuits.set(key, circuit);
+      }
+
+      if (
+        circuit.state === 'open' &&
+        clock() - circuit.openedAt >= resetTimeout
+      )
+        transition(key, 'half-open');
+
+      return circuit;
+    };
+
+    const transition = (key: string, to: CircuitState) => {
+      const circuit = circuits.get(key)!;
+      const from = circuit.state;
+      if (to === 'open') circuit.openedAt = clock();
+      if (from === to) return;
+
+      Object.assign(circuit, { state: to, failures: 0, trials: 0 });
+      onStateChange?.({ key, from, to, timestamp: clock() });
+    };
+
+    const call = (...args: TArgs) => {
+      const key = getKey(...args);
+      const circuit = getCircuit(key);
+
+      if (
+        circuit.state === 'open' ||
+        (circuit.state === 'half-open' && circuit.trials >= halfOpenMaxCalls)
+      )
+        return new AsyncResult<
+          TData,
+          TError | InstanceType<typeof CircuitOpenError>
+        >(
+          Result.not(
+            new CircuitOpenError(
+              { key, retryAt: circuit.openedAt + resetTimeout },
+              { message: `The circuit "${key}" is open` },
+            ),
+          ),
+        );
+
+      const isTrial = circuit.state === 'half-open';
+      if (isTrial) circuit.trials++;
+
+      const settle = (failed: boolean) => {
+        if (isTrial && circuit.state === 'half-open') {
+          circuit.trials--;
+          transition(key, failed ? 'open' : 'closed');
+        } else if (circuit.state === 'closed') {
+          circuit.failures = failed ? circuit.failures + 1 : 0;
+          if (circuit.failures >= failureThreshold) transition(key, 'open');
+        }
+      };
+
+      const settled = new AsyncResult<TData, TError>(
+        Promise.resolve(args).then((args) => operation(...args)),
+      ).then(
+        (result) => {
+          settle(Result.notOk(result) && isFailure(result.error as TError));
+          return result;
+        },
+        (error) => {
+          settle(true);
+          throw error;
+        },
+      );
+
+      return new AsyncResult<
+        TData,
+        TError | InstanceType<typeof CircuitOpenError>
+      >(settled);
+    };
+
+    return Object.assign(call, {
+      state: (key = 'default') => getCircuit(key).state,
+      reset: (key?: string) => {
+        for (const circuitKey of key === undefined ? circuits.keys() : [key])
+          if (circuits.has(circuitKey)) transition(circuitKey, 'closed');
+      },
+    });
   }
 
   /**
-   * Transforms the error value of the result if it is a failure.
-   * @template TReturn The type of the transformed error value.
-   * @template TReturn The type of the new error value.
-   * @param callback A function that transforms the error value.
-   * @returns A new result containing the transformed error value or the original result if it is successful.
+   * Creates a fluent matcher for a result (or a promise of a result).
+   * `exhaustive()` only compiles once the success and every member of the error union are handled.
+   * @template R The result or promise of a result to match.
+   * @param result The result to match.
+   * @returns A `ResultMatcher` to register handlers on.
    * @example
-   * const result = Result.not(new Error('Something went wrong'));
-   * const transformed = result.not((error) => error.message);
-   * console.log(transformed.error); // "Something went wrong"
+   * const message = Result.matcher(login(credentials))
+   *   .ok((user) => `Welcome, ${user.name}`)
+   *   .not({ code: 'invalid_credentials' }, () => 'Wrong username or password')
+   *   .not(TimeoutError, (error) => `Timed out after ${error.timeout}ms`)
+   *   .not({ code: 'account_locked' }, () => 'Account locked')
+   *   .exhaustive();
    *
-   * const successResult = Result.ok(42);
-   * const unchanged = successResult.not((error) => 'This will not be called');
-   * console.log(unchanged.data); // 42
+   * const fallback = await Result.matcher(fetchUser(id))
+   *   .ok((user) => user.name)
+   *   .otherwise(() => 'Unknown user');
    */
+  public static matcher<R extends PromiseLike<AnyResult<any, any>>>(
+    result: R,
+  ): ResultMatcher<
+    ResultData<R>,
+    ResultError<R>,
+    ResultError<R>,
+    never,
+    false,
+    true
+  >;
+  public static matcher<R extends AnyResult<any, any>>(
+    result: R,
+  ): ResultMatcher<
+    ResultData<R>,
+    ResultError<R>,
+    ResultError<R>,
+    never,
+    false,
+    false
+  >;
+  public static matcher(
+    result: AnyResult<any, any> | PromiseLike<AnyResult<any, any>>,
+  ): ResultMatcher<any, any, any, never, false, boolean> {
+    return new ResultMatcher(result);
+  }
 
-  public not(
-    callback: (error: E | Error, result: Not<E>) => void | never | undefined,
-  ): AnyResult<T, E>;
-  public not<TReturn>(
-    callback: (error: E | Error, result: Not<E>) => TReturn,
-  ): AnyResult<T, TReturn>;
-  public not<TReturn>(
-    callback: (error: E | Error, result: Not<E>) => TReturn,
-  ): AnyResult<T, TReturn> {
-    try {
-      return Result.notOk(this)
-        ? (Result.not(
-            callback(this.error as E, this as Not<E>) ?? (this.error as E),
-          ) as AnyResult<T, TReturn>)
-        : (this as unknown as AnyResult<T, TReturn>);
-    } catch (error) {
-      return Result.not(error) as AnyResult<T, TReturn>;
-    }
+  /**
+   * Static version of `result.matchError`, also accepting a promise of a result.
+   * @template R The result or promise of a result to match.
+   * @param result The result to match.
+   * @param key The discriminant property of the error union.
+   * @param handlers One handler for each value of the discriminant.
+   * @returns The successful value or the return value of the matched handler.
+   * @example
+   * const response = await Result.matchError(authService.login(email, password), 'type', {
+   *   invalid_credentials: () => ({ status: 401 }),
+   *   account_locked: (error) => ({ status: 423, retryAfter: error.lockedUntil }),
+   *   mfa_required: (error) => ({ status: 202, mfaToken: error.mfaToken }),
+   * });
+   */
+  public static matchError<
+    R extends PromiseLike<AnyResult<any, any>>,
+    K extends keyof ResultError<R>,
+    H extends ErrorMatchHandlers<ResultError<R>, K>,
+  >(
+    result: R,
+    key: K,
+    handlers: H,
+  ): Promise<ResultData<R> | ReturnType<H[keyof H]>>;
+  public static matchError<
+    R extends AnyResult<any, any>,
+    K extends keyof ResultError<R>,
+    H extends ErrorMatchHandlers<ResultError<R>, K>,
+  >(result: R, key: K, handlers: H): ResultData<R> | ReturnType<H[keyof H]>;
+  public static matchError(
+    result: AnyResult<any, any> | PromiseLike<AnyResult<any, any>>,
+    key: PropertyKey,
+    handlers: Record<PropertyKey, (error: any) => any>,
+  ): any {
+    return isPromiseLike(result)
+      ? AsyncResult.from(result).then((awaitedResult) =>
+          awaitedResult.matchError(key as never, handlers as never),
+        )
+      : result.matchError(key as never, handlers as never);
   }
 
   /**
-   * Throws the error if the result is a failure.
-   * @throws The error contained in the result.
+   * Formats an error and its whole cause chain as an indented trail.
+   * Follows `cause` (native or from `context()`) and the `errors` of an `AggregateError`.
+   * @param error The error to format.
+   * @returns A multi-line description of the error and its causes.
    * @example
-   * const result = Result.not(new Error('Critical failure'));
-   * result.throwIfNotOk(); // Throws: Error: Critical failure
+   * console.error(Result.report(result.error));
+   * // ContextError: processing order ord-123
+   * //   caused by: ContextError: charging customer cust-456
+   * //     caused by: Error: Card declined
    */
-  public throwIfNotOk() {
-    if (Result.notOk(this)) throw this.error;
+  public static report(error: unknown): string {
+    const seen = new Set<unknown>();
+
+    const format = (value: unknown, label: string, depth: number): string[] => {
+      const indent = '  '.repeat(depth);
+
+      if (value !== null && typeof value === 'object') {
+        if (seen.has(value)) return [`${indent}${label}[Circular]`];
+        seen.add(value);
+      }
+
+      const lines = [`${indent}${label}${describeValue(value)}`];
+      if (value === null || typeof value !== 'object') return lines;
+
+      const { errors, cause } = value as { errors?: unknown; cause?: unknown };
+
+      if (Array.isArray(errors))
+        errors.forEach((item, index) =>
+          lines.push(...format(item, `error ${index + 1}: `, depth + 1)),
+        );
+
+      if (cause !== undefined)
+        lines.push(...format(cause, 'caused by: ', depth + 1));
+
+      return lines;
+    };
+
+    return format(error, '', 0).join('\n');
   }
-}
+
+  public static match<TError, TData, TNReturn>(
+    action: NotValue,
+    result: PromiseLike<AnyResult<TData, TError>>,
+    handler: ResultMatchHandler<TError, TNReturn>,
+  ): Promise<TNReturn | null>;
+  public static match<TData, TError, TOReturn>(
+    action: OkValue,
+    result: PromiseLike<AnyResult<TData, TError>>,
+    handler: ResultMatchHandler<TData, TOReturn>,
+  ): Promise<TOReturn | null>;
+  public static match<TError, TData, TNReturn>(
+    action: NotValue,
+    result: AnyResult<TData, TError>,
+    handler: ResultMatchHandler<TError, TNReturn>,
+  ): TNReturn | null;
+  public static match<TData, TError, TOReturn>(
+    action: OkValue,
+    result: AnyResult<TData, TError>,
+    handler: ResultMatchHandler<TData, TOReturn>,
+  ): TOReturn | null;
+  /**
+   * Matches a result against handlers for success and failure.
+   * @template TData The type of the successful value.
+   * @template TError The type of the error value.
+   * @template TSReturn The return type for the success handler.
+   * @template TFReturn The return type for the failure handler.
+   * @param result The result (or promise of a result) to match.
+   * @param handlers An object containing success and failure handlers.
+   * @returns The return value of the matched handler.
+   * @example
+   * // Example 1: Matching a synchronous result
+   * const result = Result.ok(42);
+   * const message = Result.match(result, {
+   *   ok: (data) => `Success: ${data}`,
+   *   not: (error) => `Error: ${error.message}`,
+   * });
+   * console.log(message); // Success: 42
+   *
+   * // Example 2: Matching an asynchronous result
+   * const asyncResult = Result.resolve(Promise.resolve(42));
+   * const asyncMessage = await Result.match(asyncResult, {
+   *   ok: (data) => `Success: ${data}`,
+   *   not: (error) => `Error: ${error.message}`,
+   * });
+   * console.log(asyncMessage); // Success: 42
+   *
+   * // Example 3: Using action-based matching
+   * const result = Result.ok(42);
+   * const successMessage = Result.match(Result.OK, result, (data) => `Success: ${data}`);
+   * console.log(successMessage); // Success: 42
+   *
+   * const failureResult = Result.not(new Error('Something went wrong'));
+   * const errorMessage = Result.match(Result.NOT, failureResult, (error) => `Error: ${error.message}`);
+   * console.log(errorMessage); // Error: Something went wrong
+   *
+   * // Example 4: Matching with partial handlers
+   * const partialMessage = Result.match(result, {
+   *   ok: (data) => `Success: ${data}`,
+   * });
+   * console.log(partialMessage); // Success: 42
+   *
+   * // Example 5: Handling a rejected promise separately from a resolved failure
+   * const response = await Result.match(fetchUser(id), {
+   *   ok: (user) => user.name,
+   *   not: (error) => `Failed: ${error.message}`, // Resolved `Not`
+   *   rejected: (reason) => 'Unexpected rejection', // When omitted, `not` receives the reason typed as `unknown`
+   * });
+   */
+  public static match<TError, TData, TOReturn, TNReturn, TRReturn>(
+    result: PromiseLike<AnyResult<TData, TError>>,
+    handlers: Required<
+      ResultAsyncMatchHandlers<TData, TError, TOReturn, TNReturn, TRReturn>
+    >,
+  ): Promise<TOReturn | TNReturn | TRReturn>;
+  public static match<TError, TData, TOReturn, TNReturn>(
+    result: PromiseLike<AnyResult<TData, TError>>,
+    handlers: ResultMatchHandlers<TData, TError | unknown, TOReturn, TNReturn>,
+  ): Promise<TOReturn | TNReturn>;
+  public static match<TError, TData, TOReturn, TNReturn>(
+    result: AnyResult<TData, TError>,
+    handlers: ResultMatchHandlers<TData, TError, TOReturn, TNReturn>,
+  ): TOReturn | TNReturn;
+  public static match<TError, TData, TOReturn, TNReturn, TRReturn = never>(
+    result: PromiseLike<AnyResult<TData, TError>>,
+    handlers: Pick<
+      ResultAsyncMatchHandlers<TData, TError, TOReturn, TNReturn, TRReturn>,
+      'ok' | 'rejected'
+    >,
+  ): Promise<TOReturn | TNReturn | TRReturn | null>;
+  public static match<TError, TData, TOReturn, TNReturn>(
+    result: AnyResult<TData, TError>,
+    handlers: Pick<
+      ResultMatchHandlers<TData, TError, TOReturn, TNReturn>,
+      'ok'
+    >,
+  ): TOReturn | TNReturn | null;
+  public static match(...args: any[]): any | Promise<any> {
+    if (args.length === 2) {
+      const [result, handlers] = args as [
+        AnyResult<any, any> | PromiseLike<AnyResult<any, any>>,
+        ResultAsyncMatchHandlers,
+      ];
+
+      return isPromiseLike(result)
+        ? matchPromise(result, handlers)
+        : matchResult(result, handlers);
+    }
+
+    const [action, result, handler] = args as [
+      MatchTypes,
+      AnyResult<any, any> | PromiseLike<AnyResult<any, any>>,
+      ResultMatchHandler<any>,
+    ];
+
+    switch (action) {
+      case Result.OK:
+        return handleSuccess(handler, result);
+      case Result.NOT:
+        return handleFailure(handler, result);
+      default:
+        throw new Error(
+          `The match type "${action}" is not valid!\n` +
+            'Avoid using plain strings (prefer `Result.OK` or `Result.NOT`).',
+        );
+    }
+  }
+
+  readonly #kind: MatchTypes;
+  #payload: unknown;
+  #lazy: boolean;
+
+  /**
+   * Prefer the static constructors (`Result.ok`, `Result.not`, `Result.lazy`, ...).
+   * @param kind Whether the result is a success (`Result.OK`) or a failure (`Result.NOT`).
+   * @param payload The data or error of the result.
+   * @param lazy When `true`, `payload` is a function evaluated on first access.
+   */
+  constructor(kind: MatchTypes, payload: unknown, lazy = false) {
+    this.#kind = kind;
+    this.#payload = payload;
+    this.#lazy = lazy;
+  }
+
+  /**
+   * The discriminant of the result: `Result.OK` for a success and `Result.NOT` for a failure.
+   * @example
+   * switch (result.kind) {
+   *   case Result.OK:
+   *     return result.data; // T
+   *   case Result.NOT:
+   *     return result.error; // E
+   * }
+   */
+  public get kind(): MatchTypes {
+    return this.#kind;
+  }
+
+  public get data(): T | null {
+    return this.#kind === Result.OK ? (this.#evaluate() as T) : null;
+  }
+
+  public get error(): E | null {
+    return this.#kind === Result.NOT ? (this.#evaluate() as E) : null;
+  }
+
+  #evaluate(): unknown {
+    if (this.#lazy) {
+      this.#payload = (this.#payload as () => unknown)();
+      this.#lazy = false;
+    }
+    return this.#payload;
+  }
+
+  /**
+   * Provides a default value if the result is a failure.
+   * @template TValue The type of the default value.
+   * @param value The default value or a function that returns it.
+   * @returns The successful value or the default value.
+   * @example
+   * const result = Result.not(new Error('Missing value'));
+   * const value = result.defaultValue(42);
+   * console.log(value); // 42
+   */
+  public defaultValue<TValue = T>(
+    value: TValue | ((data: T) => TValue),
+  ): TValue | T {
+    const getDefaultValue = () =>
+      typeof value === 'function' ? (value as Function)(this.data) : value;
+
+    return Result.isOk(this) ? (this.data as T) : getDefaultValue();
+  }
+
+  /**
+   * Extracts the value of the result, optionally transforming it if it is successful.
+   * @template TValue The type of the transformed value.
+   * @param mutator A function that transforms the value (optional).
+   * @returns The transformed value, the original value, or `null` if the result is a failure.
+   * @example
+   * const result = Result.ok(42);
+   * const transformed = result.value((data) => data * 2);
+   * console.log(transformed); // 84
+   *
+   * const failureResult = Result.not(new Error('Something went wrong'));
+   * const fallback = failureResult.value(() => 0);
+   * console.log(fallback); // null
+   */
+  public value<TValue>(mutator: (data: T) => TValue): TValue;
+  public value(): T;
+  public value<TValue = T>(mutator?: (data: T) => TValue): TValue | T | null {
+    return Result.isOk(this) && mutator ? mutator(this.data as T) : this.data;
+  }
+
+  /**
+   * Transforms the successful value of the result.
+   * @template TReturn The type of the transformed value.
+   * @param mutator A function that transforms the value.
+   * @returns A new result containing the transformed value.
+   * @example
+   * const result = Result.ok(42).to((data) => data * 2);
+   * console.log(result.data); // 84
+   */
+  public to<TReturn>(mutator: (data: T) => TReturn): AnyResult<TReturn, E> {
+    if (Result.notOk(this)) return this as unknown as AnyResult<TReturn, E>;
+    return Result.ok(mutator(this.data as T));
+  }
+
+  public or<TReturn>(callback: (error: E) => TReturn): T | TReturn {
+    return Result.isOk(this) ? (this.data as T) : callback(this.error as E);
+  }
+
+  /**
+   * Transforms the successful value of the result if it is successful.
+   * @template TReturn The type of the transformed value.
+   * @template TReturn The type of the new successful value.
+   * @param callback A function that transforms the successful value.
+   * @param normalizeError Converts a value thrown by the callback into the error.
+   * @returns A new result containing the transformed value or the original result if it is a failure.
+   * @example
+   * // Example 1: Transforming a successful result
+   * const result = Result.ok(42);
+   * const transformed = result.ok((data) => data * 2);
+   * console.log(transformed.data); // 84
+   *
+   * // Example 2: Handling a failure result
+   * const failureResult = Result.not(new Error('Something went wrong'));
+   * const unchanged = failureResult.ok((data) => data * 2);
+   * console.log(unchanged.error); // Error: Something went wrong
+   *
+   * // Example 3: Throwing an error during transformation
+   * const resultWithError = Result.ok(42).ok((data) => {
+   *   if (data > 40) throw new Error('Value too high');
+   *   return data;
+   * });
+   * console.log(resultWithError.error); // Error: Value too high
+   */
+  public ok<TError = Error>(
+    callback: (data: T, result: Ok<T>) => void | never | undefined,
+    normalizeError?: ErrorNormalizer<TError>,
+  ): AnyResult<T, E | TError>;
+  public ok<TReturn, TError = Error>(
+    callback: (data: T, result: Ok<T>) => TReturn,
+    normalizeError?: ErrorNormalizer<TError>,
+  ): AnyResult<TReturn, E | TError>;
+  public ok<TReturn, TError = Error>(
+    callback: (data: T, result: Ok<T>) => TReturn,
+    normalizeError?: ErrorNormalizer<TError>,
+  ): AnyResult<TReturn, E | TError> {
+    try {
+      if (Result.isOk(this)) {
+        const result = callback(this.data as NonNullable<T>, this as Ok<T>);
+        // If callback returns undefined/void, preserve the original value
+        const finalValue = result === undefined ? this.data : result;
+        return Result.ok(finalValue) as unknown as AnyResult<
+          NonNullable<TReturn>,
+          E | TError
+        >;
+      }
+      return this as unknown as AnyResult<NonNullable<TReturn>, E | TError>;
+    } catch (error) {
+      return Result.not(
+        capture(error, { normalizeError }),
+      ) as unknown as AnyResult<NonNullable<TReturn>, E | TError>;
+    }
+  }
+
+  /**
+   * Transforms the error value of the result if it is a failure.
+   * @template TReturn The type of the transformed error value.
+   * @template TReturn The type of the new error value.
+   * @param callback A function that transforms the error value.
+   * @param normalizeError Converts a value thrown by the callback into the error.
+   * @returns A new result containing the transformed error value or the original result if it is successful.
+   * @example
+   * const result = Result.not(new Error('Something went wrong'));
+   * const transformed = result.not((error) => error.message);
+   * console.log(transformed.error); // "Something went wrong"
+   *
+   * const successResult = Result.ok(42);
+   * const unchanged = successResult.not((error) => 'This will not be called');
+   * console.log(unchanged.data); // 42
+   */
+
+  public not<TError = E>(
+    callback: (error: E | Error, result: Not<E>) => void | never | undefined,
+    normalizeError?: ErrorNormalizer<TError>,
+  ): AnyResult<T, E | TError>;
+  public not<TReturn, TError = TReturn>(
+    callback: (error: E | Error, result: Not<E>) => TReturn,
+    normalizeError?: ErrorNormalizer<TError>,
+  ): AnyResult<T, TReturn | TError>;
+  public not<TReturn, TError = TReturn>(
+    callback: (error: E | Error, result: Not<E>) => TReturn,
+    normalizeError?: ErrorNormalizer<TError>,
+  ): AnyResult<T, TReturn | TError> {
+    try {
+      return Result.notOk(this)
+        ? (Result.not(
+            callback(this.error as E, this as Not<E>) ?? (this.error as E),
+          ) as AnyResult<T, TReturn | TError>)
+        : (this as unknown as AnyResult<T, TReturn | TError>);
+    } catch (error) {
+      return Result.not(capture(error, { normalizeError })) as AnyResult<
+        T,
+        TReturn | TError
+      >;
+    }
+  }
+
+  /**
+   * Chains a result-returning operation on the successful value.
+   * Unlike `ok()`, the returned result is not wrapped again, so a failure
+   * produced by the callback short-circuits the rest of the chain.
+   * @template R The type of the result returned by the callback.
+   * @param callback A function that receives the successful value and returns a new result.
+   * @returns The result returned by the callback or the original result if it is a failure.
+   * @example
+   * const result = Result.ok('john_doe')
+   *   .andThen((username) => validateUsername(username))
+   *   .andThen((username) => Result.ok({ username }));
+   *
+   * const failure = Result.ok(-1).andThen((value) =>
+   *   value > 0 ? Result.ok(value) : Result.not(new Error('Must be positive')),
+   * );
+   * console.log(failure.error); // Error: Must be positive
+   */
+  public andThen<R extends AnyResult<any, any>>(
+    callback: (data: T, result: Ok<T>) => R,
+  ): AnyResult<ResultData<R>, E | ResultError<R>> {
+    try {
+      if (Result.isOk(this))
+        return callback(this.data as T, this as Ok<T>) as AnyResult<
+          ResultData<R>,
+          E | ResultError<R>
+        >;
+      return this as unknown as AnyResult<ResultData<R>, E | ResultError<R>>;
+    } catch (error) {
+      return Result.not(capture(error)) as unknown as AnyResult<
+        ResultData<R>,
+        E | ResultError<R>
+      >;
+    }
+  }
+
+  /**
+   * Alias of `andThen()`.
+   */
+  public flatMap<R extends AnyResult<any, any>>(
+    callback: (data: T, result: Ok<T>) => R,
+  ): AnyResult<ResultData<R>, E | ResultError<R>> {
+    return this.andThen(callback);
+  }
+
+  /**
+   * Chains a result-returning operation on the error value, allowing a
+   * failure to be recovered into a success or replaced by another failure.
+   * @template R The type of the result returned by the callback.
+   * @param callback A function that receives the error and returns a new result.
+   * @returns The result returned by the callback or the original result if it is successful.
+   * @example
+   * const result = Result.not<Error, User>(new Error('Cache miss'))
+   *   .orElse(() => fetchUserFromDatabase(id));
+   */
+  public orElse<R extends AnyResult<any, any>>(
+    callback: (error: AnyError<E>, result: Not<E>) => R,
+  ): AnyResult<T | ResultData<R>, ResultError<R>> {
+    try {
+      if (Result.notOk(this))
+        return callback(this.error as AnyError<E>, this as Not<E>) as AnyResult<
+          T | ResultData<R>,
+          ResultError<R>
+        >;
+      return this as unknown as AnyResult<T | ResultData<R>, ResultError<R>>;
+    } catch (error) {
+      return Result.not(capture(error)) as unknown as AnyResult<
+        T | ResultData<R>,
+        ResultError<R>
+      >;
+    }
+  }
+
+  /**
+   * Wraps the error in a `ContextError` with the given message, keeping the previous error as its `cause`.
+   * Does nothing if the result is successful.
+   * @param message A description of what was being done when the error happened.
+   * @returns A new result with the wrapped error or the original result if it is successful.
+   * @example
+   * const result = fetchUser(id)
+   *   .context(`loading user profile ${id}`)
+   *   .andThen((user) => loadPreferences(user).context('loading preferences'));
+   *
+   * if (Result.notOk(result)) console.error(Result.report(result.error));
+   * // ContextError: loading user profile 1
+   * //   caused by: HttpError: Request failed with status 503
+   */
+  public context(message: string): AnyResult<T, ContextualError<E>> {
+    return this.withContext(() => message);
+  }
+
+  /**
+   * Same as `context()`, but the message is only computed for a failure.
+   * @param getMessage A function that receives the error and returns the context message.
+   * @returns A new result with the wrapped error or the original result if it is successful.
+   * @example
+   * const result = readFile(path).withContext((error) => `reading ${path} (${error.code})`);
+   */
+  public withContext(
+    getMessage: (error: E) => string,
+  ): AnyResult<T, ContextualError<E>> {
+    if (!Result.notOk(this))
+      return this as unknown as AnyResult<T, ContextualError<E>>;
+
+    const error = this.error as E;
+    return Result.not(
+      new ContextError(undefined, { message: getMessage(error), cause: error }),
+    ) as unknown as AnyResult<T, ContextualError<E>>;
+  }
+
+  /**
+   * Handles a discriminated error union with one handler per discriminant value.
+   * The compiler checks that every value is covered and narrows the argument of each handler.
+   * @template K The discriminant property of the error union.
+   * @param key The discriminant property of the error union.
+   * @param handlers One handler for each value of the discriminant.
+   * @returns The successful value or the return value of the matched handler.
+   * @throws When no handler exists for the discriminant value at runtime.
+   * @example
+   * const message = processOrder(order).matchError('code', {
+   *   insufficient_inventory: (error) => `Unavailable: ${error.items.join(', ')}`,
+   *   payment_limit_exceeded: (error) => `Limit is ${error.limit}`,
+   * }); // Order | string
+   */
+  public matchError<K extends keyof E, H extends ErrorMatchHandlers<E, K>>(
+    key: K,
+    handlers: H,
+  ): T | ReturnType<H[keyof H]> {
+    if (Result.isOk(this)) return this.data as T;
+
+    const error = this.error as E;
+    const value = error?.[key] as PropertyKey;
+    const handler = (handlers as Record<PropertyKey, (error: E) => any>)[value];
+
+    if (!handler)
+      throw new Error(
+        `No handler matched the error "${String(key)}" value "${String(value)}".`,
+      );
+
+    return handler(error);
+  }
+
+  /**
+   * Throws the error if the result is a failure, narrowing the result to `Ok` afterwards.
+   * TypeScript only narrows results declared with an explicit type annotation.
+   * @throws The error contained in the result.
+   * @example
+   * const result = Result.not(new Error('Critical failure'));
+   * result.throwIfNotOk(); // Throws: Error: Critical failure
+   *
+   * const user: AnyResult<User, Error> = findUser(id);
+   * user.throwIfNotOk();
+   * console.log(user.data.name); // `data` is `User`
+   */
+  public throwIfNotOk(): asserts this is Ok<T, E> {
+    if (Result.notOk(this)) throw this.error;
+  }
+
+  /**
+   * Returns the successful value or throws if the result is a failure.
+   * @returns The successful value.
+   * @throws An `UnwrapError` with the error of the result as its `cause`.
+   * @example
+   * const config = Result.tryCatch(() => JSON.parse(raw)).unwrap();
+   */
+  public unwrap(): T {
+    return this.expect('Called unwrap() on a failed result');
+  }
+
+  /**
+   * Returns the successful value or throws with the given message if the result is a failure.
+   * @param message Describes why the result was expected to be successful.
+   * @returns The successful value.
+   * @throws An `UnwrapError` with the message and the error of the result as its `cause`.
+   * @example
+   * const port = parsePort(process.env.PORT).expect('PORT must be a valid port number');
+   */
+  public expect(message: string): T {
+    if (Result.notOk(this))
+      throw new UnwrapError(undefined, { message, cause: this.error });
+
+    return this.data as T;
+  }
+
+  /**
+   * Returns the error or throws if the result is successful.
+   * @returns The error of the result.
+   * @throws An `UnwrapError` with the successful value as its `cause`.
+   * @example
+   * expect(validateAge(-1).unwrapErr().message).toBe('Age must be positive');
+   */
+  public unwrapErr(): E {
+    if (Result.isOk(this))
+      throw new UnwrapError(undefined, {
+        message: 'Called unwrapErr() on a successful result',
+        cause: this.data,
+      });
+
+    return this.error as E;
+  }
+
+  /**
+   * Returns the successful value or the given value if the result is a failure.
+   * Unlike `defaultValue()`, a function is returned as is instead of being called.
+   * @template TValue The type of the fallback value.
+   * @param value The fallback value.
+   * @returns The successful value or the fallback value.
+   * @example
+   * const retries = parseRetries(input).unwrapOr(3);
+   */
+  public unwrapOr<TValue>(value: TValue): T | TValue {
+    return Result.isOk(this) ? (this.data as T) : value;
+  }
+
+  /**
+   * Returns the successful value or computes a fallback from the error.
+   * @template TReturn The type of the fallback value.
+   * @param callback A function that receives the error and returns the fallback value.
+   * @returns The successful value or the fallback value.
+   * @example
+   * const user = findUser(id).unwrapOrElse((error) => guestUser(error.reason));
+   */
+  public unwrapOrElse<TReturn>(callback: (error: E) => TReturn): T | TReturn {
+    return Result.isOk(this) ? (this.data as T) : callback(this.error as E);
+  }
+
+  /**
+   * Converts the result into an option, discarding the error.
+   * @returns `Some` with the successful value or `None` if the result is a failure.
+   * @example
+   * const nickname = findProfile(id).toOption().map((profile) => profile.nickname);
+   */
+  public toOption(): AnyOption<T> {
+    return Result.isOk(this) ? Option.some(this.data as T) : Option.none();
+  }
+
+  /**
+   * Makes the result usable with `yield*` inside `Result.gen`.
+   * A success returns its value, while a failure is yielded to stop the generator.
+   */
+  public *[Symbol.iterator](): Generator<Not<E, T>, T, unknown> {
+    if (Result.notOk(this)) yield this as unknown as Not<E, T>;
+    return this.data as T;
+  }
+}
+
+/**
+ * Represents a result that is still being computed.
+ * It can be chained like a `Result` (callbacks may be sync or async) and awaited to get the final `AnyResult`.
+ * @template T The type of the successful value.
+ * @template E The type of the error value.
+ */
+export class AsyncResult<T, E = Error> implements PromiseLike<AnyResult<T, E>> {
+  readonly #promise: Promise<AnyResult<T, E>>;
+
+  /**
+   * Creates an `AsyncResult` from a result or a promise of a result.
+   * @template TData The type of the successful value.
+   * @template TError The type of the error value.
+   * @param result The result or the promise that resolves to it.
+   * @returns An `AsyncResult` wrapping the result.
+   * @example
+   * const result = await AsyncResult.from(fetchUser(id))
+   *   .andThen((user) => fetchPermissions(user.id))
+   *   .ok((permissions) => permissions.includes('admin'));
+   */
+  public static from<TData, TError = Error>(
+    result: AnyResult<TData, TError> | PromiseLike<AnyResult<TData, TError>>,
+  ): AsyncResult<TData, TError> {
+    return result instanceof AsyncResult ? result : new AsyncResult(result);
+  }
+
+  constructor(result: AnyResult<T, E> | PromiseLike<AnyResult<T, E>>) {
+    this.#promise = Promise.resolve(result).catch((error) => {
+      if (rethrown.has(error)) throw error;
+      return Result.not(capture(error)) as unknown as AnyResult<T, E>;
+    });
+  }
+
+  public then<TResult1 = AnyResult<T, E>, TResult2 = never>(
+    onfulfilled?:
+      ((value: AnyResult<T, E>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null,
+  ): Promise<TResult1 | TResult2> {
+    return this.#promise.then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Transforms the successful value, awaiting the callback if it returns a promise.
+   * @see Result.ok
+   */
+  public ok<TError = Error>(
+    callback: (
+      data: T,
+      result: Ok<T>,
+    ) => void | never | undefined | PromiseLike<void | undefined>,
+    normalizeError?: ErrorNormalizer<TError>,
+  ): AsyncResult<T, E | TError>;
+  public ok<TReturn, TError>(
+    callback: (data: T, result: Ok<T>) => TReturn | PromiseLike<TReturn>,
+    normalizeError: ErrorNormalizer<TError>,
+  ): AsyncResult<TReturn, E | TError>;
+  public ok<TReturn, TError = Error>(
+    callback: (data: T, result: Ok<T>) => TReturn | PromiseLike<TReturn>,
+  ): AsyncResult<TReturn, AnyError<E, TError>>;
+  public ok<TReturn, TError = Error>(
+    callback: (data: T, result: Ok<T>) => TReturn | PromiseLike<TReturn>,
+    normalizeError?: ErrorNormalizer<TError>,
+  ): AsyncResult<TReturn, E | TError> {
+    return this.#chain(async (result) => {
+      if (Result.notOk(result)) return result;
+
+      try {
+        const value = await callback(result.data as T, result as Ok<T>);
+        return Result.ok(value === undefined ? result.data : value);
+      } catch (error) {
+        return Result.not(capture(error, { normalizeError }));
+      }
+    });
+  }
+
+  /**
+   * Transforms the error value, awaiting the callback if it returns a promise.
+   * @see Result.not
+   */
+  public not<TError = E>(
+    callback: (
+      error: AnyError<E>,
+      result: Not<E>,
+    ) => void | never | undefined | PromiseLike<void | undefined>,
+    normalizeError?: ErrorNormalizer<TError>,
+  ): AsyncResult<T, E | TError>;
+  public not<TReturn, TError = TReturn>(
+    callback: (
+      error: AnyError<E>,
+      result: Not<E>,
+    ) => TReturn | PromiseLike<TReturn>,
+    normalizeError?: ErrorNormalizer<TError>,
+  ): AsyncResult<T, TReturn | TError>;
+  public not<TReturn, TError = TReturn>(
+    callback: (
+      error: AnyError<E>,
+      result: Not<E>,
+    ) => TReturn | PromiseLike<TReturn>,
+    normalizeError?: ErrorNormalizer<TError>,
+  ): AsyncResult<T, TReturn | TError> {
+    return this.#chain(async (result) => {
+      if (!Result.notOk(result)) return result;
+
+      try {
+        const error = await callback(
+          result.error as AnyError<E>,
+          result as Not<E>,
+        );
+        return Result.not(error ?? result.error);
+      } catch (error) {
+        return Result.not(capture(error, { normalizeError }));
+      }
+    });
+  }
+
+  /**
+   * Transforms the successful value, awaiting the mutator if it returns a promise.
+   * @see Result.to
+   */
+  public to<TReturn>(
+    mutator: (data: T) => TReturn | PromiseLike<TReturn>,
+  ): AsyncResult<TReturn, E> {
+    return this.#chain(async (result) =>
+      Result.notOk(result)
+        ? result
+        : Result.ok(await mutator(result.data as T)),
+    );
+  }
+
+  /**
+   * Chains a result-returning operation, which may also return a promise or an `AsyncResult`.
+   * @see Result.andThen
+   */
+  public andThen<R extends AnyResult<any, any>>(
+    callback: (data: T, result: Ok<T>) => R | PromiseLike<R>,
+  ): AsyncResult<ResultData<R>, E | ResultError<R>> {
+    return this.#chain(async (result) =>
+      Result.notOk(result)
+        ? result
+        : await callback(result.data as T, result as Ok<T>),
+    );
+  }
+
+  /**
+   * Alias of `andThen()`.
+   */
+  public flatMap<R extends AnyResult<any, any>>(
+    callback: (data: T, result: Ok<T>) => R | PromiseLike<R>,
+  ): AsyncResult<ResultData<R>, E | ResultError<R>> {
+    return this.andThen(callback);
+  }
+
+  /**
+   * Chains a result-returning operation on the error value.
+   * @see Result.orElse
+   */
+  public orElse<R extends AnyResult<any, any>>(
+    callback: (error: AnyError<E>, result: Not<E>) => R | PromiseLike<R>,
+  ): AsyncResult<T | ResultData<R>, ResultError<R>> {
+    return this.#chain(async (result) =>
+      Result.notOk(result)
+        ? await callback(result.error as AnyError<E>, result as Not<E>)
+        : result,
+    );
+  }
+
+  /**
+   * Wraps the error in a `ContextError` with the given message.
+   * @see Result.context
+   */
+  public context(message: string): AsyncResult<T, ContextualError<E>> {
+    return this.#chain(async (result) => result.context(message));
+  }
+
+  /**
+   * Wraps the error in a `ContextError` with a message computed from the error.
+   * @see Result.withContext
+   */
+  public withContext(
+    getMessage: (error: E) => string,
+  ): AsyncResult<T, ContextualError<E>> {
+    return this.#chain(async (result) => result.withContext(getMessage));
+  }
+
+  /**
+   * Resolves to the successful value or the default value.
+   * @see Result.defaultValue
+   */
+  public async defaultValue<TValue = T>(
+    value: TValue | ((data: T) => TValue),
+  ): Promise<TValue | T> {
+    return (await this.#promise).defaultValue(value);
+  }
+
+  /**
+   * Resolves to the value of the result, optionally transformed.
+   * @see Result.value
+   */
+  public value<TValue>(mutator: (data: T) => TValue): Promise<TValue>;
+  public value(): Promise<T>;
+  public async value<TValue = T>(
+    mutator?: (data: T) => TValue,
+  ): Promise<TValue | T | null> {
+    const result = await this.#promise;
+    return mutator ? result.value(mutator) : result.value();
+  }
+
+  /**
+   * Resolves to the successful value or the value returned by the callback.
+   * @see Result.or
+   */
+  public async or<TReturn>(
+    callback: (error: E) => TReturn | PromiseLike<TReturn>,
+  ): Promise<T | TReturn> {
+    const result = await this.#promise;
+    return Result.isOk(result) ? result.data : callback(result.error as E);
+  }
+
+  /**
+   * Rejects with the error if the result is a failure.
+   * @see Result.throwIfNotOk
+   */
+  public async throwIfNotOk(): Promise<void> {
+    const result: AnyResult<T, E> = await this.#promise;
+    result.throwIfNotOk();
+  }
+
+  /**
+   * Resolves to the successful value or rejects with an `UnwrapError`.
+   * @see Result.unwrap
+   */
+  public async unwrap(): Promise<T> {
+    return (await this.#promise).unwrap();
+  }
+
+  /**
+   * Resolves to the successful value or rejects with an `UnwrapError` with the given message.
+   * @see Result.expect
+   */
+  public async expect(message: string): Promise<T> {
+    return (await this.#promise).expect(message);
+  }
+
+  /**
+   * Resolves to the error or rejects with an `UnwrapError` if the result is successful.
+   * @see Result.unwrapErr
+   */
+  public async unwrapErr(): Promise<E> {
+    return (await this.#promise).unwrapErr();
+  }
+
+  /**
+   * Resolves to the successful value or the given value.
+   * @see Result.unwrapOr
+   */
+  public async unwrapOr<TValue>(value: TValue): Promise<T | TValue> {
+    return (await this.#promise).unwrapOr(value);
+  }
+
+  /**
+   * Resolves to the successful value or the fallback computed from the error.
+   * @see Result.unwrapOrElse
+   */
+  public async unwrapOrElse<TReturn>(
+    callback: (error: E) => TReturn | PromiseLike<TReturn>,
+  ): Promise<T | TReturn> {
+    const result = await this.#promise;
+    return Result.isOk(result) ? result.data : callback(result.error as E);
+  }
+  /**
+   * Resolves to an option with the successful value, discarding the error.
+   * @see Result.toOption
+   */
+  public async toOption(): Promise<AnyOption<T>> {
+    return (await this.#promise).toOption();
+  }
+
+  /**
+   * Resolves to the successful value or the return value of the matched error handler.
+   * @see Result.matchError
+   */
+  public async matchError<
+    K extends keyof E,
+    H extends ErrorMatchHandlers<E, K>,
+  >(key: K, handlers: H): Promise<T | ReturnType<H[keyof H]>> {
+    return (await this.#promise).matchError(key, handlers);
+  }
+
+  /**
+   * Makes the result usable with `yield*` inside `Result.genAsync`.
+   */
+  public async *[Symbol.asyncIterator](): AsyncGenerator<
+    Not<E, T>,
+    T,
+    unknown
+  > {
+    return yield* await this.#promise;
+  }
+
+  #chain<TReturn, TError>(
+    callback: (result: AnyResult<T, E>) => Promise<any>,
+  ): AsyncResult<TReturn, TError> {
+    return new AsyncResult<TReturn, TError>(this.#promise.then(callback));
+  }
+}
+
+type ResultMatcherCase =
+  | { kind: OkValue; handler: (data: any) => any }
+  | {
+      kind: NotValue;
+      pattern?: unknown;
+      hasPattern: boolean;
+      handler: (error: any) => any;
+    };
+
+/**
+ * A fluent builder that matches a result against handlers, created with `Result.matcher`.
+ * @template TData The type of the successful value.
+ * @template TError The type of the error value.
+ * @template TRemaining The members of the error union that are not handled yet.
+ * @template TReturn The union of the handlers return types.
+ * @template TOkHandled Whether a success handler was registered.
+ * @template TAsync Whether the matched value is a promise.
+ */
+export class ResultMatcher<
+  TData,
+  TError,
+  TRemaining,
+  TReturn,
+  TOkHandled extends boolean,
+  TAsync extends boolean,
+> {
+  readonly #result:
+    AnyResult<TData, TError> | PromiseLike<AnyResult<TData, TError>>;
+  readonly #cases: ResultMatcherCase[];
+  declare private readonly okHandled: TOkHandled;
+
+  constructor(
+    result: AnyResult<TData, TError> | PromiseLike<AnyResult<TData, TError>>,
+    cases: ResultMatcherCase[] = [],
+  ) {
+    this.#result = result;
+    this.#cases = cases;
+  }
+
+  /**
+   * Handles the successful value.
+   */
+  public ok<R>(
+    handler: (data: TData) => R,
+  ): ResultMatcher<TData, TError, TRemaining, TReturn | R, true, TAsync> {
+    return new ResultMatcher(this.#result, [
+      ...this.#cases,
+      { kind: Result.OK, handler },
+    ]);
+  }
+
+  /**
+   * Handles the errors matching a pattern (an error class, a literal value or a partial object),
+   * or every remaining error when only a handler is given.
+   */
+  public not<R>(
+    handler: (error: TRemaining) => R,
+  ): ResultMatcher<TData, TError, never, TReturn | R, TOkHandled, TAsync>;
+  public not<const P extends ErrorPattern<TRemaining>, R>(
+    pattern: P,
+    handler: (error: MatchedError<TRemaining, P>) => R,
+  ): ResultMatcher<
+    TData,
+    TError,
+    Exclude<TRemaining, ErrorPatternTarget<P>>,
+    TReturn | R,
+    TOkHandled,
+    TAsync
+  >;
+  public not(
+    ...args: [(error: any) => any] | [unknown, (error: any) => any]
+  ): ResultMatcher<TData, TError, any, any, TOkHandled, TAsync> {
+    const matcherCase: ResultMatcherCase =
+      args.length === 1
+        ? { kind: Result.NOT, hasPattern: false, handler: args[0] }
+        : {
+            kind: Result.NOT,
+            hasPattern: true,
+            pattern: args[0],
+            handler: args[1],
+          };
+
+    return new ResultMatcher(this.#result, [...this.#cases, matcherCase]);
+  }
+
+  /**
+   * Runs the matched handler. Only compiles when the success and every error are handled.
+   * @throws When no handler matches at runtime (e.g. an error outside of the declared union).
+   */
+  public exhaustive(
+    this: ResultMatcher<TData, TError, never, TReturn, true, TAsync>,
+  ): MatcherOutput<TAsync, TReturn> {
+    return this.#run((result) => {
+      throw new Error(
+        `No handler matched the result of kind "${result.kind}".`,
+      );
+    });
+  }
+
+  /**
+   * Runs the matched handler or the fallback when no handler matches.
+   */
+  public otherwise<R>(
+    fallback: (result: AnyResult<TData, TError>) => R,
+  ): MatcherOutput<TAsync, TReturn | R> {
+    return this.#run(fallback);
+  }
+
+  #run(fallback: (result: AnyResult<TData, TError>) => any): any {
+    const run = (result: AnyResult<TData, TError>) => {
+      for (const matcherCase of this.#cases) {
+        if (matcherCase.kind !== result.kind) continue;
+        if (matcherCase.kind === Result.OK)
+          return matcherCase.handler(result.data);
+        if (
+          !matcherCase.hasPattern ||
+          matchesPattern(result.error, matcherCase.pattern)
+        )
+          return matcherCase.handler(result.error);
+      }
+
+      return fallback(result);
+    };
+
+    return isPromiseLike(this.#result)
+      ? AsyncResult.from(this.#result).then(run)
+      : run(this.#result);
+  }
+}
+
+/**
+ * Represents a value that may be absent, as an alternative to a failure with a fake error.
+ * Narrowing on `kind === Option.SOME` (or `Option.isSome`) types `value` as `T`.
+ * @template T The type of the value.
+ */
+export class Option<T> {
+  public static readonly SOME: SomeValue = 'some';
+  public static readonly NONE: NoneValue = 'none';
+
+  /**
+   * Creates an option with a present value.
+   * @template T The type of the value.
+   * @param value The value, stored as is (`null` and `undefined` included).
+   * @returns An option containing the value.
+   * @example
+   * const option = Option.some(42);
+   * console.log(option.value); // 42
+   */
+  public static some<T>(value: T): Some<T> {
+    return new Option<T>(Option.SOME, value) as unknown as Some<T>;
+  }
+
+  /**
+   * Creates an option without a value.
+   * @template T The type the value would have if it were present.
+   * @returns An empty option.
+   * @example
+   * function findUser(id: string): AnyOption<User> {
+   *   const user = users.get(id);
+   *   return user ? Option.some(user) : Option.none();
+   * }
+   */
+  public static none<T = never>(): None<T> {
+    return new Option<T>(Option.NONE, undefined) as unknown as None<T>;
+  }
+
+  /**
+   * Creates an option that is empty for `null` and `undefined`.
+   * @template T The type of the value.
+   * @param value The value that may be missing.
+   * @returns `Some` with the value or `None`.
+   * @example
+   * const user = Option.fromNullable(users.find((u) => u.username === username));
+   */
+  public static fromNullable<T>(value: T): AnyOption<NonNullable<T>> {
+    return value === null || value === undefined
+      ? Option.none()
+      : Option.some(value as NonNullable<T>);
+  }
+
+  public static isSome<T>(option: AnyOption<T>): option is Some<T> {
+    return option instanceof Option && option.kind === Option.SOME;
+  }
+
+  public static isNone<T>(option: AnyOption<T>): option is None<T> {
+    return option instanceof Option && option.kind === Option.NONE;
+  }
+
+  readonly #kind: SomeValue | NoneValue;
+  readonly #value: T | undefined;
+
+  /**
+   * Prefer the static constructors (`Option.some`, `Option.none`, `Option.fromNullable`).
+   * @param kind Whether the value is present (`Option.SOME`) or absent (`Option.NONE`).
+   * @param value The value of the option.
+   */
+  constructor(kind: SomeValue | NoneValue, value: T | undefined) {
+    this.#kind = kind;
+    this.#value = value;
+  }
+
+  public get kind(): SomeValue | NoneValue {
+    return this.#kind;
+  }
+
+  public get value(): T | undefined {
+    return this.#value;
+  }
+
+  /**
+   * Transforms the value if it is present.
+   * @template TReturn The type of the transformed value.
+   * @param callback A function that transforms the value.
+   * @returns `Some` with the transformed value or `None`.
+   * @example
+   * const name = Option.some(user).map((user) => user.name);
+   */
+  public map<TReturn>(callback: (value: T) => TReturn): AnyOption<TReturn> {
+    return Option.isSome(this as AnyOption<T>)
+      ? Option.some(callback(this.#value as T))
+      : Option.none();
+  }
+
+  /**
+   * Chains an option-returning operation on the value if it is present.
+   * @template TReturn The type of the new value.
+   * @param callback A function that receives the value and returns a new option.
+   * @returns The option returned by the callback or `None`.
+   * @example
+   * const avatar = findUser(id).andThen((user) => Option.fromNullable(user.avatarUrl));
+   */
+  public andThen<TReturn>(
+    callback: (value: T) => AnyOption<TReturn>,
+  ): AnyOption<TReturn> {
+    return Option.isSome(this as AnyOption<T>)
+      ? callback(this.#value as T)
+      : Option.none();
+  }
+
+  /**
+   * Returns the value or the given fallback if it is absent.
+   * @template TValue The type of the fallback value.
+   * @param value The fallback value.
+   * @returns The value or the fallback value.
+   * @example
+   * const theme = Option.fromNullable(settings.theme).unwrapOr('light');
+   */
+  public unwrapOr<TValue>(value: TValue): T | TValue {
+    return Option.isSome(this as AnyOption<T>) ? (this.#value as T) : value;
+  }
+
+  /**
+   * Calls the handler that matches whether the value is present.
+   * @template TSome The return type of the `some` handler.
+   * @template TNone The return type of the `none` handler.
+   * @param handlers The `some` and `none` handlers.
+   * @returns The value returned by the matched handler.
+   * @example
+   * const greeting = findUser(id).match({
+   *   some: (user) => `Hello, ${user.name}`,
+   *   none: () => 'Hello, guest',
+   * });
+   */
+  public match<TSome, TNone>(
+    handlers: OptionMatchHandlers<T, TSome, TNone>,
+  ): TSome | TNone {
+    return Option.isSome(this as AnyOption<T>)
+      ? handlers.some(this.#value as T)
+      : handlers.none();
+  }
+}
+
+/**
+ * An in-memory `CacheStore` that evicts the least recently used entry once it holds `maxSize` entries.
+ * @template TValue The type of the stored values.
+ * @example
+ * const getUser = Result.cached(fetchUser, { ttl: 60_000, store: new LruStore(100) });
+ */
+export class LruStore<TValue> implements CacheStore<TValue> {
+  readonly #entries = new Map<string, TValue>();
+  readonly #maxSize: number;
+
+  /**
+   * @param maxSize The maximum number of entries. Defaults to `1000`.
+   */
+  constructor(maxSize = 1000) {
+    this.#maxSize = maxSize;
+  }
+
+  public get size(): number {
+    return this.#entries.size;
+  }
+
+  public get(key: string): TValue | undefined {
+    if (!this.#entries.has(key)) return undefined;
+
+    const value = this.#entries.get(key) as TValue;
+    this.#entries.delete(key);
+    this.#entries.set(key, value);
+    return value;
+  }
+
+  public set(key: string, value: TValue): void {
+    this.#entries.delete(key);
+    this.#entries.set(key, value);
+
+    if (this.#entries.size > this.#maxSize)
+      this.#entries.delete(this.#entries.keys().next().value as string);
+  }
+
+  public delete(key: string): void {
+    this.#entries.delete(key);
+  }
+
+  public clear(): void {
+    this.#entries.clear();
+  }
+}
+
+const serializeCause = (cause: unknown): unknown => {
+  if (cause && typeof (cause as any).toJSON === 'function')
+    return (cause as any).toJSON();
+  if (cause instanceof Error)
+    return { name: cause.name, message: cause.message };
+  return cause;
+};
+
+/**
+ * Creates a tagged error class with a literal `_tag`, shared properties and a typed payload.
+ * Instances are real `Error`s, so they have a stack trace, support `cause` and `instanceof`.
+ * @template TTag The literal tag of the error, also used as its `name`.
+ * @template TProps The static properties shared by every instance.
+ * @param tag The tag of the error.
+ * @param props The properties shared by every instance (e.g. `code`, `status`).
+ * @returns A function that receives the payload type and returns the error class.
+ * @example
+ * const NotFound = defineError('NotFound', { code: 'not_found', status: 404 })<{ id: string }>();
+ * const Forbidden = defineError('Forbidden', { code: 'forbidden', status: 403 })();
+ * type UserError = ErrorUnion<typeof NotFound | typeof Forbidden>;
+ *
+ * function findUser(id: string): AnyResult<User, UserError> {
+ *   const user = users.get(id);
+ *   if (!user) return Result.not(new NotFound({ id }, { message: `User ${id} not found` }));
+ *   return Result.ok(user);
+ * }
+ *
+ * if (NotFound.is(error)) console.log(error.id, error.status); // string, 404
+ */
+export function defineError<
+  const TTag extends string,
+  const TProps extends object = {},
+>(tag: TTag, props: TProps = {} as TProps) {
+  return <TPayload extends object = {}>(): TaggedErrorClass<
+    TTag,
+    TProps,
+    TPayload
+  > => {
+    class DefinedError extends Error {
+      public static readonly _tag = tag;
+      public readonly _tag = tag;
+      declare public readonly cause?: unknown;
+      readonly #payload: TPayload;
+
+      public static is(value: unknown): value is DefinedError {
+        return value instanceof DefinedError;
+      }
+
+      constructor(
+        payload: TPayload = {} as TPayload,
+        options: TaggedErrorOptions = {},
+      ) {
+        super(options.message ?? tag);
+        this.name = tag;
+        this.#payload = payload;
+        Object.assign(this, props, payload);
+
+        if ('cause' in options)
+          Object.defineProperty(this, 'cause', {
+            value: options.cause,
+            configurable: true,
+            writable: true,
+          });
+      }
+
+      public toJSON() {
+        return {
+          _tag: this._tag,
+          name: this.name,
+          message: this.message,
+          ...props,
+          ...this.#payload,
+          ...('cause' in this ? { cause: serializeCause(this.cause) } : {}),
+        };
+      }
+    }
+
+    Object.defineProperty(DefinedError, 'name', { value: tag });
+
+    return DefinedError as unknown as TaggedErrorClass<TTag, TProps, TPayload>;
+  };
+}
+
+/**
+ * Converts an unknown thrown value into an `Error`.
+ * Errors are returned as is, anything else is wrapped with the original value as `cause`.
+ * @param error The thrown value.
+ * @returns The error itself or a new `Error` describing the value.
+ * @example
+ * Result.tryCatch(() => {
+ *   throw { code: 42 };
+ * }, toError).error; // Error: {"code":42}, with { code: 42 } as its cause
+ */
+export function toError(error: unknown): Error {
+  if (error instanceof Error) return error;
+
+  const wrapped = new Error(describeValue(error));
+  Object.defineProperty(wrapped, 'cause', {
+    value: error,
+    configurable: true,
+    writable: true,
+  });
+  return wrapped;
+}
+
+/**
+ * The error created by `result.context()` and `result.withContext()`.
+ */
+export const ContextError = defineError('ContextError')();
+
+/**
+ * The error thrown by `unwrap()`, `expect()` and `unwrapErr()`.
+ */
+export const UnwrapError = defineError('UnwrapError')();
+
+/**
+ * The error returned by `Result.retry` once it gives up.
+ */
+export const RetryError = defineError('RetryError')<{
+  history: readonly RetryAttempt<unknown>[];
+}>();
+
+/**
+ * The error returned by a function guarded by `Result.circuitBreaker` while its circuit is open.
+ */
+export const CircuitOpenError = defineError('CircuitOpenError')<{
+  key: string;
+  retryAt: number;
+}>();
+
+/**
+ * The error of an operation that did not settle before its `timeout`.
+ */
+export const TimeoutError = defineError('TimeoutError')<{ timeout: number }>();
+
+/**
+ * The error of an operation whose `signal` was aborted, with the abort reason as `cause`.
+ */
+export const AbortedError = defineError('AbortedError')();
 
 export { Result };
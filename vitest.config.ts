@@ -4,6 +4,11 @@ import { defineConfig } from 'vitest/config';
 export default defineConfig({
   test: {
     include: ['src/__tests__/**/*.{test,spec}.?(c|m)[jt]s?(x)'],
+    typecheck: {
+      enabled: true,
+      include: ['src/__tests__/**/*.test-d.ts'],
+      tsconfig: './tsconfig.test.json',
+    },
   },
   resolve: {
     alias: {